@@ -3,9 +3,14 @@
  * 
  * Handles the main subtitle generation pipeline including:
  * - Request transcript from content script
+ * - Whisper transcription when no captions exist
  * - Robust per-chunk translation with retry logic
  * - SRT format generation
- * - Progress reporting to popup
+ * - Job records that outlive the popup (progress, result, auto-apply)
+ * - Saving finished subtitles to the library
+ * - Applying the user's glossary for the video and channel
+ * - Optional terminology pre-pass, paused for review in the popup
+ * - Cancellation of running generations
  * 
  * @module background/ai
  */
@@ -19,133 +24,395 @@ if (typeof browser !== 'undefined') {
 }
 
 import { chunkTranscript, estimateTranscript } from "../../shared/ai-core/chunker.js";
+import { resolveChunkConfig, type StoredChunkConfig } from "../../shared/ai-core/config.js";
 import { AIPipeline } from "../../shared/ai-core/pipeline.js";
+import { selectGlossaryEntries, type GlossaryEntry } from "../../shared/ai-core/glossary.js";
+import { extractTerminology, type TermEntry } from "../../shared/ai-core/terminology.js";
+import {
+    createProvider,
+    DEFAULT_MODELS,
+    OPENAI_BASE_URL,
+    ProviderError,
+    type ProviderConfig
+} from "../../shared/ai-core/providers.js";
+import { getTokenCounter } from "../../shared/ai-core/tokenizer.js";
+import { transcriptToText, type TranscriptLine } from "../../shared/ai-core/transcript.js";
+import { estimateWhisperCost, getWhisperTranscript, whisperSegmentsToTranscript } from "../../shared/ai-core/whisper.js";
+import {
+    createJob,
+    getJob,
+    recoverJobs,
+    removeJobsForTab,
+    saveJob,
+    savePendingReview,
+    takePendingReview,
+    type GenerationJob,
+    type JobResult
+} from "./jobs.js";
+import { saveEntry } from "../utils/library.js";
 
 /** Message payload for subtitle generation requests */
 interface GenerateSubtitlesRequest {
     action: "GENERATE_SUBTITLES";
+    tabId: number;
     videoId: string;
+    /** OpenAI key, used for Whisper and when no provider is given */
     apiKey: string;
+    /** Translation provider chosen in Settings */
+    provider?: ProviderConfig;
+    /** Send Whisper uploads to the OpenAI-compatible provider's server instead of OpenAI */
+    transcribeOnServer?: boolean;
     language: string;
     model?: string;
+    /** Maximum number of chunks translated in parallel */
+    concurrency?: number;
+    /** Advanced chunking settings (out-of-range values are clamped) */
+    chunkConfig?: StoredChunkConfig;
     videoTitle: string;
+    /** Caption track chosen in the popup (default track when omitted) */
+    trackId?: string;
+    /** User agreed to transcribe the audio with Whisper when no captions exist */
+    allowWhisper?: boolean;
+    /** Extract key terms first and wait for the user to review them */
+    extractTerms?: boolean;
+    /** Reviewed term map; skips the extraction pass when set (even if empty) */
+    terms?: TermEntry[];
 }
 
-/** Response payload for subtitle generation */
-interface GenerateSubtitlesResponse {
-    subtitles?: string;
-    usedWhisper?: boolean;
-    warning?: string;
-    stats?: {
-        totalChunks: number;
-        successfulChunks: number;
-        failedChunks: number;
-    };
-    error?: string;
+/** Message payload for cancelling the generation of a tab */
+interface CancelGenerationRequest {
+    action: "CANCEL_GENERATION";
+    tabId: number;
 }
 
+/** Message payload for looking up the job of a tab and video */
+interface GetJobRequest {
+    action: "GET_JOB";
+    tabId: number;
+    videoId: string;
+}
+
+type BackgroundRequest = GenerateSubtitlesRequest | CancelGenerationRequest | GetJobRequest;
+
+/** Running generations by tab, so they can be cancelled */
+const activeGenerations = new Map<number, { videoId: string; controller: AbortController }>();
+
+/**
+ * Signal of the run that owns each job record
+ *
+ * Restarting a job for the same tab and video reuses its ID; the cancelled
+ * run must not overwrite the record of the run that replaced it.
+ */
+const jobRuns = new Map<string, AbortSignal>();
+
+// Jobs left running by a previous worker were interrupted
+recoverJobs();
+
 /**
  * Listen for messages from the popup
  */
 chrome.runtime.onMessage.addListener((
-    message: GenerateSubtitlesRequest,
+    message: BackgroundRequest,
     _sender: chrome.runtime.MessageSender,
-    sendResponse: (response: GenerateSubtitlesResponse) => void
+    sendResponse: (response: { job?: GenerationJob | null; success?: boolean }) => void
 ): boolean => {
     if (message.action === "GENERATE_SUBTITLES") {
-        handleGenerateSubtitles(message, sendResponse);
+        startJob(message)
+            .then((job) => sendResponse({ job }))
+            .catch((error) => {
+                // The job record could not be written; report it as a failed job
+                console.error("[BringYourSub] Could not start generation:", error);
+                cancelGeneration(message.tabId);
+                const reason = error instanceof Error ? error.message : "Unknown error";
+                sendResponse({
+                    job: { ...createJob(message.tabId, message.videoId), status: "failed", error: `Could not start the generation: ${reason}` }
+                });
+            });
         return true; // Keep message channel open for async response
     }
+    if (message.action === "CANCEL_GENERATION") {
+        sendResponse({ success: cancelGeneration(message.tabId) });
+        return false;
+    }
+    if (message.action === "GET_JOB") {
+        getJob(message.tabId, message.videoId).then((job) => sendResponse({ job }));
+        return true;
+    }
     return false;
 });
 
+/**
+ * Stop spending credits when the user leaves the video or closes the tab
+ */
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    const generation = activeGenerations.get(tabId);
+    if (generation && changeInfo.url && !changeInfo.url.includes(`v=${generation.videoId}`)) {
+        cancelGeneration(tabId);
+    }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+    cancelGeneration(tabId);
+    for (const jobId of jobRuns.keys()) {
+        if (jobId.startsWith(`${tabId}:`)) jobRuns.delete(jobId);
+    }
+    removeJobsForTab(tabId);
+});
+
+/**
+ * Aborts the running generation of a tab
+ *
+ * @returns Whether a generation was running
+ */
+function cancelGeneration(tabId: number): boolean {
+    const generation = activeGenerations.get(tabId);
+    if (!generation) return false;
+
+    console.log("[BringYourSub] Cancelling generation for tab", tabId);
+    generation.controller.abort();
+    activeGenerations.delete(tabId);
+    return true;
+}
+
+/**
+ * Creates the job record and runs the pipeline in the background
+ *
+ * @returns The new job, before any work has been done
+ */
+async function startJob(data: GenerateSubtitlesRequest): Promise<GenerationJob> {
+    // A new request replaces any generation still running in this tab
+    cancelGeneration(data.tabId);
+
+    const controller = new AbortController();
+    activeGenerations.set(data.tabId, { videoId: data.videoId, controller });
+
+    const job = createJob(data.tabId, data.videoId);
+    jobRuns.set(job.id, controller.signal);
+    await saveJob(job);
+
+    runJob(job, data, controller.signal).catch((error) => {
+        // Only reached when the final status itself could not be saved
+        console.error("[BringYourSub] Could not save job status:", error);
+    }).finally(() => {
+        if (activeGenerations.get(data.tabId)?.controller === controller) {
+            activeGenerations.delete(data.tabId);
+        }
+        if (jobRuns.get(job.id) === controller.signal) {
+            jobRuns.delete(job.id);
+        }
+    });
+
+    return job;
+}
+
 /**
  * Main pipeline handler for subtitle generation
  */
-async function handleGenerateSubtitles(
+async function runJob(
+    job: GenerationJob,
     data: GenerateSubtitlesRequest,
-    sendResponse: (response: GenerateSubtitlesResponse) => void
+    signal: AbortSignal
 ): Promise<void> {
-    const { apiKey, language, model, videoTitle } = data;
+    const { tabId, videoId, apiKey, language, concurrency, videoTitle, trackId, allowWhisper } = data;
+    const providerConfig = data.provider || { id: "openai", apiKey };
+    const model = data.model || DEFAULT_MODELS[providerConfig.id];
+    const whisperServer = data.transcribeOnServer && providerConfig.id === "openai-compatible"
+        ? { apiKey: providerConfig.apiKey, baseUrl: providerConfig.baseUrl || OPENAI_BASE_URL }
+        : { apiKey, baseUrl: OPENAI_BASE_URL };
+    const provider = createProvider(providerConfig);
+    const tokenCounter = getTokenCounter(model);
+    const chunkConfig = resolveChunkConfig(data.chunkConfig);
     let warning: string | undefined;
+    let usedWhisper = false;
 
     try {
-        // Stage 1: Get transcript from content script
-        notifyPopup("Extracting transcript from video...", 1, 4);
-
-        // Get active tab
-        const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
-        const tabId = tabs[0]?.id;
+        // Resuming after term review reuses the transcript fetched before,
+        // also when the worker was restarted in between; any other request
+        // drops the paused work
+        const pendingReview = await takePendingReview(job.id);
+        const reviewed = data.terms ? pendingReview : null;
 
-        if (!tabId) {
-            throw new Error("No active YouTube tab found");
-        }
+        // Stage 1: Get transcript from content script
+        await reportProgress(job, "Extracting transcript from video...", 1, signal);
 
-        // Request transcript from content script
-        let transcript: string | null = null;
-        try {
-            const response = await new Promise<{ transcript: string | null }>((resolve, reject) => {
-                chrome.tabs.sendMessage(tabId, { action: 'GET_TRANSCRIPT' }, (resp) => {
-                    if (chrome.runtime.lastError) {
-                        reject(new Error(chrome.runtime.lastError.message));
-                    } else {
-                        resolve(resp || { transcript: null });
-                    }
+        let transcript: TranscriptLine[] | null = null;
+        let duration: number | undefined;
+        if (reviewed) {
+            ({ transcript, usedWhisper, warning } = reviewed);
+        } else {
+            // Request transcript from content script
+            try {
+                const response = await new Promise<{ transcript: TranscriptLine[] | null; duration?: number }>((resolve, reject) => {
+                    chrome.tabs.sendMessage(tabId, { action: 'GET_TRANSCRIPT', trackId }, (resp) => {
+                        if (chrome.runtime.lastError) {
+                            reject(new Error(chrome.runtime.lastError.message));
+                        } else {
+                            resolve(resp || { transcript: null });
+                        }
+                    });
                 });
-            });
-            transcript = response.transcript;
-            console.log('[BringYourSub] Transcript received, length:', transcript?.length || 0);
-        } catch (err) {
-            console.log('[BringYourSub] Content script transcript failed:', err);
+                ({ transcript, duration } = response);
+                console.log('[BringYourSub] Transcript received, lines:', transcript?.length || 0);
+            } catch (err) {
+                console.log('[BringYourSub] Content script transcript failed:', err);
+            }
         }
 
-        if (!transcript) {
-            throw new Error("No captions available for this video. Please try a video with auto-generated or manual captions.");
+        // Stage 1b: Fall back to Whisper when the video has no captions
+        if (!transcript || transcript.length === 0) {
+            if (!allowWhisper) {
+                job.status = "needs_whisper";
+                job.result = duration ? { whisperEstimate: estimateWhisperCost(duration) } : undefined;
+                await saveRun(job, signal);
+                return;
+            }
+
+            await reportProgress(job, "No captions found. Transcribing audio with Whisper...", 1, signal);
+            const whisperResult = await getWhisperTranscript(videoId, whisperServer.apiKey, (message) => {
+                warning = message;
+                reportProgress(job, message, 1, signal);
+            }, signal, whisperServer.baseUrl);
+
+            if (signal.aborted) {
+                throw new Error("GENERATION_CANCELLED");
+            }
+
+            if (!whisperResult?.segments || whisperResult.segments.length === 0) {
+                throw new Error(whisperResult?.warning || "Whisper transcription failed. No audio could be transcribed.");
+            }
+
+            transcript = whisperSegmentsToTranscript(whisperResult.segments);
+            warning = whisperResult.warning || warning;
+            usedWhisper = true;
         }
 
         // Stage 2: Analyze and Chunk
-        notifyPopup("Analyzing transcript length...", 2, 4);
-        const estimates = estimateTranscript(transcript);
+        await reportProgress(job, "Analyzing transcript length...", 2, signal);
+        const transcriptText = transcriptToText(transcript);
+        const estimates = estimateTranscript(transcriptText, tokenCounter);
+        const metadata = await getVideoMetadata(tabId);
+        const channel = metadata?.channel || "YouTube Video";
+
+        if (estimates.warningMessage && !reviewed) {
+            await reportProgress(job, estimates.warningMessage, 2, signal);
+            warning = warning ? `${warning} ${estimates.warningMessage}` : estimates.warningMessage;
+        }
+
+        // Stage 2b: Optional terminology pass, reviewed in the popup before translating
+        if (data.extractTerms && !data.terms) {
+            await reportProgress(job, "Extracting key terms...", 2, signal);
+            let terms: TermEntry[] = [];
+            try {
+                terms = await extractTerminology(transcriptText, {
+                    provider,
+                    model,
+                    targetLanguage: language,
+                    videoMetadata: { title: videoTitle, channel },
+                    tokenCounter,
+                    signal
+                });
+            } catch (error) {
+                if (signal.aborted) throw error;
+                console.warn("[BringYourSub] Term extraction failed:", error);
+                const termWarning = "Key terms could not be extracted.";
+                warning = warning ? `${warning} ${termWarning}` : termWarning;
+            }
 
-        if (estimates.warningMessage) {
-            notifyPopup(estimates.warningMessage, 2, 4);
-            warning = estimates.warningMessage;
+            if (terms.length > 0) {
+                await savePendingReview(job.id, { transcript, usedWhisper, warning, terms });
+                job.status = "needs_review";
+                job.result = { terms, usedWhisper, warning };
+                await saveRun(job, signal);
+                return;
+            }
         }
 
-        notifyPopup(`Splitting into chunks (est. ${estimates.estimatedDuration} min video)...`, 2, 4);
-        const chunks = chunkTranscript(transcript);
+        await reportProgress(job, `Splitting into chunks (est. ${estimates.estimatedDuration} min video, ~${estimates.estimatedTokens.toLocaleString()} tokens)...`, 2, signal);
+        const chunks = chunkTranscript(transcript, chunkConfig.maxTokens, tokenCounter);
 
-        notifyPopup(`Processing ${chunks.length} parts...`, 2, 4);
+        await reportProgress(job, `Processing ${chunks.length} parts...`, 2, signal);
 
         // Stage 3: Translation Pipeline
+        const { glossary = [] } = await chrome.storage.local.get('glossary') as { glossary?: GlossaryEntry[] };
+
         const pipeline = new AIPipeline({
             apiKey,
+            provider,
             targetLanguage: language,
-            model: model || "gpt-4o-mini",
+            model,
+            concurrency,
+            signal,
             videoMetadata: {
                 title: videoTitle,
-                channel: "YouTube Video"
+                channel
             },
+            glossary: selectGlossaryEntries(glossary, { videoId, channel }),
+            terms: data.terms,
+            tokenCounter,
+            chunkConfig,
             onProgress: (msg) => {
-                notifyPopup(msg, 3, 4);
+                reportProgress(job, msg, 3, signal);
             }
         });
 
+        pipeline.setUsedWhisper(usedWhisper);
         const result = await pipeline.translateChunks(chunks);
 
-        notifyPopup("Generation complete!", 4, 4);
+        if (result.glossaryViolations.length > 0) {
+            const glossaryWarning = `${result.glossaryViolations.length} cue(s) may not follow your glossary.`;
+            warning = warning ? `${warning} ${glossaryWarning}` : glossaryWarning;
+        }
 
-        sendResponse({
-            subtitles: result.srt,
-            usedWhisper: false,
+        const jobResult: JobResult = {
+            subtitles: result.stats.successfulChunks > 0 ? result.srt : undefined,
+            sourceSubtitles: result.stats.successfulChunks > 0 ? result.sourceSrt : undefined,
+            usedWhisper: result.stats.usedWhisper,
             warning,
+            glossaryViolations: result.glossaryViolations.length > 0 ? result.glossaryViolations : undefined,
             stats: {
                 totalChunks: result.stats.totalChunks,
                 successfulChunks: result.stats.successfulChunks,
                 failedChunks: result.stats.failedChunks
             }
-        });
+        };
+
+        if (result.stats.cancelled) {
+            job.status = "cancelled";
+            job.result = jobResult;
+            job.progress = { text: "Generation cancelled", step: 4, totalSteps: 4 };
+            await saveRun(job, signal);
+            return;
+        }
+
+        job.status = "completed";
+        job.result = { ...jobResult, subtitles: result.srt, sourceSubtitles: result.sourceSrt };
+        job.progress = { text: "Generation complete!", step: 4, totalSteps: 4 };
+        await saveRun(job, signal);
+
+        // The job is done; a full library (e.g. the storage quota in Firefox) must not fail it
+        try {
+            await saveEntry({
+                videoId,
+                title: videoTitle.replace(/ - YouTube$/, ""),
+                language,
+                model,
+                subtitles: result.srt,
+                sourceSubtitles: result.sourceSrt,
+                usedWhisper: result.stats.usedWhisper
+            });
+        } catch (error) {
+            console.error("[BringYourSub] Could not save subtitles to the library:", error);
+        }
+
+        await autoApplySubtitles(tabId, result.srt, result.sourceSrt);
     } catch (error) {
+        if (signal.aborted) {
+            job.status = "cancelled";
+            job.progress = { text: "Generation cancelled", step: 4, totalSteps: 4 };
+            await saveRun(job, signal);
+            return;
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
         console.error("[BringYourSub] Pipeline error:", error);
 
@@ -153,34 +420,71 @@ async function handleGenerateSubtitles(
         let userMessage = errorMessage;
         if (errorMessage.includes("Invalid API")) {
             userMessage = "Invalid API Key. Please check your key in Settings.";
-        } else if (errorMessage.includes("rate limit")) {
+        } else if ((error instanceof ProviderError && error.isRateLimit) || /rate limit|resource_exhausted/i.test(errorMessage)) {
             userMessage = "Rate limit exceeded. Please wait a moment and try again.";
         } else if (errorMessage.includes("quota")) {
-            userMessage = "API quota exceeded. Check your OpenAI billing settings.";
+            userMessage = "API quota exceeded. Check your provider's billing settings.";
         }
 
-        sendResponse({ error: userMessage });
+        job.status = "failed";
+        job.error = userMessage;
+        await saveRun(job, signal);
     }
 }
 
 /**
- * Sends progress update to popup
+ * Persists a job update of a run, unless a newer run has taken over the job
  */
-function notifyPopup(text: string, step: number, totalSteps: number): void {
-    try {
-        const result = chrome.runtime.sendMessage({
-            action: "UPDATE_PROGRESS",
-            text,
-            step,
-            totalSteps
+async function saveRun(job: GenerationJob, signal: AbortSignal): Promise<void> {
+    if (jobRuns.get(job.id) === signal) {
+        await saveJob(job);
+    }
+}
+
+/**
+ * Records job progress and forwards it to the popup
+ *
+ * Awaited between stages so the final status is written last. Progress
+ * callbacks cannot wait, but their writes still start in call order.
+ */
+async function reportProgress(job: GenerationJob, text: string, step: number, signal: AbortSignal): Promise<void> {
+    job.progress = { text, step, totalSteps: 4 };
+    await saveRun(job, signal);
+}
+
+/**
+ * Reads the video title and channel name from the page
+ */
+async function getVideoMetadata(tabId: number): Promise<{ title: string; channel: string } | null> {
+    return new Promise((resolve) => {
+        chrome.tabs.sendMessage(tabId, { action: 'GET_METADATA' }, (response) => {
+            if (chrome.runtime.lastError || !response || response.channel === 'Unknown') {
+                resolve(null);
+            } else {
+                resolve(response);
+            }
         });
-        // Handle Promise (Firefox) or undefined (popup closed)
-        if (result && typeof result.catch === 'function') {
-            result.catch(() => {
-                // Popup may be closed, ignore
-            });
+    });
+}
+
+/**
+ * Shows finished subtitles on the video when auto-apply is enabled
+ */
+async function autoApplySubtitles(tabId: number, subtitles: string, sourceSubtitles: string): Promise<void> {
+    const settings = await chrome.storage.local.get(['autoApply', 'fontSize', 'position', 'dualSubtitles', 'sourceColor']);
+    if (!settings.autoApply) return;
+
+    chrome.tabs.sendMessage(tabId, {
+        action: 'APPLY_SUBTITLES',
+        subtitles,
+        sourceSubtitles,
+        fontSize: settings.fontSize || 'medium',
+        position: settings.position || 'bottom',
+        dualSubtitles: settings.dualSubtitles || 'off',
+        sourceColor: settings.sourceColor
+    }, () => {
+        if (chrome.runtime.lastError) {
+            console.log('[BringYourSub] Auto-apply failed:', chrome.runtime.lastError.message);
         }
-    } catch {
-        // Ignore errors when popup is closed
-    }
+    });
 }
@@ -6,7 +6,13 @@
  * - Toast notifications
  * - API key validation
  * - Settings management
- * - Subtitle generation
+ * - Subtitle generation (runs as a background job)
+ * - Subtitle library (History tab)
+ * - Download as SRT, WebVTT or ASS
+ * - Opening local subtitle files
+ * - Dual subtitles with the original text
+ * - Glossary editor
+ * - Review of extracted key terms
  * 
  * @module popup/popup
  */
@@ -21,6 +27,45 @@ if (typeof browser !== 'undefined' && typeof chrome === 'undefined') {
     // Firefox with chrome defined but browser is the real API
     (globalThis as any).chrome = browser;
 }
+import type { CaptionTrackInfo } from '../../shared/ai-core/transcript.js';
+import type { GenerationJob } from '../background/jobs.js';
+import {
+    DEFAULT_MODELS,
+    OPENAI_BASE_URL,
+    type ProviderConfig,
+    type ProviderId
+} from '../../shared/ai-core/providers.js';
+import type { GlossaryEntry, GlossaryScope, GlossaryViolation } from '../../shared/ai-core/glossary.js';
+import type { TermEntry } from '../../shared/ai-core/terminology.js';
+import {
+    CHUNK_CONFIG_LIMITS,
+    migrateChunkConfig,
+    validateChunkConfig,
+    type ChunkConfig,
+    type StoredChunkConfig
+} from '../../shared/ai-core/config.js';
+import type { SubtitleFormat, SubtitleParseError } from '../../shared/ai-core/subtitles.js';
+import { formatSRT, parseSRT } from '../../shared/ai-core/srt.js';
+import { generateVTT } from '../../shared/ai-core/vtt.js';
+import { parseSubtitles } from '../../shared/ai-core/formats.js';
+import { createASSStyle, generateASS, type ASSPreset } from '../../shared/ai-core/ass.js';
+import {
+    createSourceASSStyle,
+    formatBilingualSRT,
+    pairSourceCues,
+    toBilingualASSCues,
+    type DualLayout
+} from '../../shared/ai-core/bilingual.js';
+import { adjustCues, describeTiming, isTimingAdjusted } from '../../shared/ai-core/timing.js';
+import {
+    deleteEntry,
+    getEntry,
+    getTiming,
+    listEntries,
+    saveOpenedFile,
+    type LibraryEntry
+} from '../utils/library.js';
+
 console.log('[BringYourSub] Popup loaded, chrome API:', typeof chrome !== 'undefined' ? 'available' : 'missing');
 
 // =====================
@@ -34,28 +79,85 @@ const apiKeyInput = document.getElementById('apiKey') as HTMLInputElement;
 const toggleKeyBtn = document.getElementById('toggleKey') as HTMLButtonElement;
 const testKeyBtn = document.getElementById('testKey') as HTMLButtonElement;
 const languageSelect = document.getElementById('language') as HTMLSelectElement;
+const captionTrackSelect = document.getElementById('captionTrack') as HTMLSelectElement;
 const generateBtn = document.getElementById('generateBtn') as HTMLButtonElement;
+const openFileBtn = document.getElementById('openFileBtn') as HTMLButtonElement;
+const subtitleFileInput = document.getElementById('subtitleFile') as HTMLInputElement;
+
+const whisperPrompt = document.getElementById('whisperPrompt') as HTMLDivElement;
+const whisperEstimate = document.getElementById('whisperEstimate') as HTMLSpanElement;
+const whisperConfirmBtn = document.getElementById('whisperConfirmBtn') as HTMLButtonElement;
+const whisperCancelBtn = document.getElementById('whisperCancelBtn') as HTMLButtonElement;
+
+const termReview = document.getElementById('termReview') as HTMLDivElement;
+const termList = document.getElementById('termList') as HTMLDivElement;
+const termConfirmBtn = document.getElementById('termConfirmBtn') as HTMLButtonElement;
+const termSkipBtn = document.getElementById('termSkipBtn') as HTMLButtonElement;
 
 const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
 const progressFill = document.getElementById('progressFill') as HTMLDivElement;
 const statusText = document.getElementById('statusText') as HTMLParagraphElement;
+const cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement;
 const steps = document.querySelectorAll<HTMLElement>('.step');
 
 const resultContainer = document.getElementById('resultContainer') as HTMLDivElement;
 const outputPreview = document.getElementById('outputPreview') as HTMLTextAreaElement;
+const glossaryIssues = document.getElementById('glossaryIssues') as HTMLDivElement;
 const copyBtn = document.getElementById('copyBtn') as HTMLButtonElement;
 const downloadBtn = document.getElementById('downloadBtn') as HTMLButtonElement;
+const downloadFormatSelect = document.getElementById('downloadFormat') as HTMLSelectElement;
 const applyBtn = document.getElementById('applyBtn') as HTMLButtonElement;
 
+const historyList = document.getElementById('historyList') as HTMLDivElement;
+const historyEmpty = document.getElementById('historyEmpty') as HTMLParagraphElement;
+
 const toastContainer = document.getElementById('toastContainer') as HTMLDivElement;
 
 // Settings elements
 const fontSizeSelect = document.getElementById('fontSize') as HTMLSelectElement;
 const positionSelect = document.getElementById('position') as HTMLSelectElement;
+const rendererSelect = document.getElementById('renderer') as HTMLSelectElement;
+const assStyleSelect = document.getElementById('assStyle') as HTMLSelectElement;
+const dualSubtitlesSelect = document.getElementById('dualSubtitles') as HTMLSelectElement;
+const sourceColorSelect = document.getElementById('sourceColor') as HTMLSelectElement;
 const autoApplyCheckbox = document.getElementById('autoApply') as HTMLInputElement;
+const saveOpenedFilesCheckbox = document.getElementById('saveOpenedFiles') as HTMLInputElement;
+const providerSelect = document.getElementById('provider') as HTMLSelectElement;
+const providerKeyItem = document.getElementById('providerKeyItem') as HTMLDivElement;
+const providerKeyInput = document.getElementById('providerKey') as HTMLInputElement;
+const baseUrlItem = document.getElementById('baseUrlItem') as HTMLDivElement;
+const baseUrlInput = document.getElementById('baseUrl') as HTMLInputElement;
+const testServerBtn = document.getElementById('testServer') as HTMLButtonElement;
+const transcribeOnServerItem = document.getElementById('transcribeOnServerItem') as HTMLDivElement;
+const transcribeOnServerCheckbox = document.getElementById('transcribeOnServer') as HTMLInputElement;
 const modelSelect = document.getElementById('model') as HTMLSelectElement;
+const customModelInput = document.getElementById('customModel') as HTMLInputElement;
+const concurrencySelect = document.getElementById('concurrency') as HTMLSelectElement;
+const extractTermsCheckbox = document.getElementById('extractTerms') as HTMLInputElement;
+const chunkConfigInputs: Record<keyof ChunkConfig, HTMLInputElement> = {
+    maxTokens: document.getElementById('maxTokens') as HTMLInputElement,
+    targetSegmentDuration: document.getElementById('targetSegmentDuration') as HTMLInputElement,
+    minSegmentDuration: document.getElementById('minSegmentDuration') as HTMLInputElement,
+    maxSegmentDuration: document.getElementById('maxSegmentDuration') as HTMLInputElement,
+    contextTokens: document.getElementById('contextTokens') as HTMLInputElement
+};
 const saveSettingsBtn = document.getElementById('saveSettings') as HTMLButtonElement;
 
+// Glossary elements
+const glossaryList = document.getElementById('glossaryList') as HTMLDivElement;
+const glossaryEmpty = document.getElementById('glossaryEmpty') as HTMLParagraphElement;
+const glossarySourceInput = document.getElementById('glossarySource') as HTMLInputElement;
+const glossaryTargetInput = document.getElementById('glossaryTarget') as HTMLInputElement;
+const glossaryScopeSelect = document.getElementById('glossaryScope') as HTMLSelectElement;
+const addGlossaryBtn = document.getElementById('addGlossaryEntry') as HTMLButtonElement;
+
+// Original text of the subtitles in the result area, for dual subtitles
+let currentSourceSubtitles: string | undefined;
+
+// Tab and video the popup is showing a job for
+let currentTabId: number | undefined;
+let currentVideoId: string | undefined;
+
 // =====================
 // Settings Interface
 // =====================
@@ -64,10 +166,65 @@ interface Settings {
     targetLanguage: string;
     fontSize: string;
     position: string;
+    /** Styled overlay, or the video's own text track (fullscreen, Picture-in-Picture) */
+    renderer: 'overlay' | 'native';
+    /** Look of ASS downloads */
+    assStyle: ASSPreset;
+    /** Show the original text with the translation */
+    dualSubtitles: DualLayout | 'off';
+    /** Color of the original text ("#RRGGBB") */
+    sourceColor: string;
     autoApply: boolean;
+    /** Keep subtitle files opened for a video in the library */
+    saveOpenedFiles: boolean;
+    provider: ProviderId;
+    /** API keys of the non-OpenAI providers (OpenAI uses openaiApiKey) */
+    providerKeys: Partial<Record<ProviderId, string>>;
+    /** Server URL of the OpenAI-compatible provider */
+    baseUrl: string;
+    /** Send Whisper uploads to that server too */
+    transcribeOnServer: boolean;
     model: string;
+    concurrency: number;
+    /** Extract key terms before translating and ask for review */
+    extractTerms: boolean;
+    /** Advanced chunking settings; unset fields use the defaults */
+    chunkConfig: StoredChunkConfig;
+    /** Glossary entries of every scope */
+    glossary: GlossaryEntry[];
 }
 
+// Model choices per provider (OpenAI-compatible servers take a free-form name)
+const PROVIDER_MODELS: Record<ProviderId, Array<{ value: string; label: string }>> = {
+    'openai': [
+        { value: 'gpt-4o-mini', label: 'GPT-4o Mini (Fast)' },
+        { value: 'gpt-4o', label: 'GPT-4o (Quality)' }
+    ],
+    'anthropic': [
+        { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku (Fast)' },
+        { value: 'claude-3-7-sonnet-latest', label: 'Claude 3.7 Sonnet (Quality)' }
+    ],
+    'gemini': [
+        { value: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash (Fast)' },
+        { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro (Quality)' }
+    ],
+    'openai-compatible': []
+};
+
+const PROVIDER_NAMES: Record<ProviderId, string> = {
+    'openai': 'OpenAI',
+    'anthropic': 'Anthropic',
+    'gemini': 'Gemini',
+    'openai-compatible': 'Server'
+};
+
+// Keys typed for each provider, kept while switching between them
+let providerKeys: Partial<Record<ProviderId, string>> = {};
+let selectedProvider: ProviderId = 'openai';
+let glossary: GlossaryEntry[] = [];
+/** Whether the job waiting for term review used Whisper */
+let reviewUsedWhisper = false;
+
 // =====================
 // Toast Notifications
 // =====================
@@ -81,7 +238,13 @@ function showToast(message: string, type: 'success' | 'error' | 'info' = 'info')
         info: 'ℹ'
     };
 
-    toast.innerHTML = `<span>${icons[type]}</span> ${message}`;
+    // Messages may contain file names, so they are never parsed as HTML
+    const icon = document.createElement('span');
+    icon.textContent = icons[type];
+    const text = document.createElement('span');
+    text.textContent = message;
+
+    toast.append(icon, text);
     toastContainer.appendChild(toast);
 
     setTimeout(() => {
@@ -114,6 +277,7 @@ tabs.forEach(tab => {
     tab.addEventListener('click', () => {
         const tabName = tab.dataset.tab;
         if (tabName) switchTab(tabName);
+        if (tabName === 'history') loadHistory();
     });
 });
 
@@ -136,35 +300,90 @@ testKeyBtn.addEventListener('click', async () => {
     testKeyBtn.classList.add('loading');
     testKeyBtn.classList.remove('success', 'error');
 
-    try {
-        const response = await fetch('https://api.openai.com/v1/models', {
-            headers: { 'Authorization': `Bearer ${key}` }
-        });
+    const valid = await checkConnection(OPENAI_BASE_URL, key);
+    showTestResult(testKeyBtn, valid);
 
-        if (response.ok) {
-            testKeyBtn.classList.remove('loading');
-            testKeyBtn.classList.add('success');
-            testKeyBtn.querySelector('.test-text')!.textContent = 'Valid';
-            showToast('API Key is valid!', 'success');
+    if (valid) {
+        showToast('API Key is valid!', 'success');
 
-            // Save the valid key
-            chrome.storage.local.set({ openaiApiKey: key });
-        } else {
-            throw new Error('Invalid key');
-        }
-    } catch {
-        testKeyBtn.classList.remove('loading');
-        testKeyBtn.classList.add('error');
-        testKeyBtn.querySelector('.test-text')!.textContent = 'Invalid';
+        // Save the valid key
+        chrome.storage.local.set({ openaiApiKey: key });
+    } else {
         showToast('Invalid API Key', 'error');
     }
+});
+
+testServerBtn.addEventListener('click', async () => {
+    const baseUrl = baseUrlInput.value.trim();
+
+    // Ask before anything is awaited, the request needs the click gesture
+    const permission = requestServerPermission(baseUrl);
+    if (!permission) {
+        showToast('Enter a valid http(s) server URL', 'error');
+        return;
+    }
+    if (!(await permission)) {
+        showToast('Permission to reach the server was denied', 'error');
+        return;
+    }
+
+    testServerBtn.classList.add('loading');
+    testServerBtn.classList.remove('success', 'error');
+
+    // Self-hosted servers often run without a key
+    const valid = await checkConnection(baseUrl, providerKeyInput.value.trim());
+    showTestResult(testServerBtn, valid);
+    showToast(valid ? 'Server is reachable!' : 'Could not reach the server', valid ? 'success' : 'error');
+});
+
+/**
+ * Checks a key against an OpenAI-style `/models` endpoint
+ */
+async function checkConnection(baseUrl: string, key: string): Promise<boolean> {
+    const headers: Record<string, string> = {};
+    if (key) {
+        headers['Authorization'] = `Bearer ${key}`;
+    }
+
+    try {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, { headers });
+        return response.ok;
+    } catch {
+        return false;
+    }
+}
+
+function showTestResult(button: HTMLButtonElement, valid: boolean): void {
+    button.classList.remove('loading');
+    button.classList.add(valid ? 'success' : 'error');
+    button.querySelector('.test-text')!.textContent = valid ? 'Valid' : 'Invalid';
 
     // Reset button after 3 seconds
     setTimeout(() => {
-        testKeyBtn.classList.remove('success', 'error');
-        testKeyBtn.querySelector('.test-text')!.textContent = 'Test';
+        button.classList.remove('success', 'error');
+        button.querySelector('.test-text')!.textContent = 'Test';
     }, 3000);
-});
+}
+
+/**
+ * Requests the optional host permission for a self-hosted server
+ *
+ * Must be called synchronously from a click handler.
+ *
+ * @returns The permission result, or null if the URL is not a valid http(s) URL
+ */
+function requestServerPermission(baseUrl: string): Promise<boolean> | null {
+    let url: URL;
+    try {
+        url = new URL(baseUrl);
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    // Match patterns cannot contain a port, so this covers every port on the host
+    return chrome.permissions.request({ origins: [`${url.protocol}//${url.hostname}/*`] });
+}
 
 // =====================
 // Progress Management
@@ -190,6 +409,7 @@ function updateProgress(stepNumber: number, status: string): void {
 
 function resetProgress(): void {
     progressFill.style.width = '0%';
+    cancelBtn.disabled = false;
     steps.forEach(step => step.classList.remove('active', 'completed'));
     statusText.textContent = 'Initializing...';
 }
@@ -197,18 +417,124 @@ function resetProgress(): void {
 // =====================
 // Subtitle Generation
 // =====================
-generateBtn.addEventListener('click', async () => {
+generateBtn.addEventListener('click', () => {
+    startGeneration(false);
+});
+
+// Whisper fallback needs explicit consent since it costs extra API credits
+whisperConfirmBtn.addEventListener('click', () => {
+    whisperPrompt.classList.add('hidden');
+    startGeneration(true);
+});
+
+whisperCancelBtn.addEventListener('click', () => {
+    whisperPrompt.classList.add('hidden');
+    resetUI();
+});
+
+// Resume the job with the reviewed term map
+termConfirmBtn.addEventListener('click', () => {
+    termReview.classList.add('hidden');
+    startGeneration(reviewUsedWhisper, readReviewedTerms());
+});
+
+termSkipBtn.addEventListener('click', () => {
+    termReview.classList.add('hidden');
+    startGeneration(reviewUsedWhisper, []);
+});
+
+/**
+ * Lists extracted terms with an editable translation each
+ */
+function showTermReview(terms: TermEntry[]): void {
+    termList.innerHTML = '';
+
+    for (const term of terms) {
+        const item = document.createElement('div');
+        item.className = 'term-item';
+        item.dataset.source = term.source;
+        item.dataset.kind = term.kind;
+
+        const source = document.createElement('span');
+        source.className = 'term-source';
+        source.textContent = term.source;
+        source.title = term.source;
+
+        const kind = document.createElement('span');
+        kind.className = 'term-kind';
+        kind.textContent = term.kind;
+
+        const target = document.createElement('input');
+        target.type = 'text';
+        target.value = term.target;
+        target.placeholder = 'Keep as is';
+
+        const removeBtn = document.createElement('button');
+        removeBtn.className = 'glossary-remove';
+        removeBtn.textContent = '✕';
+        removeBtn.title = 'Remove';
+        removeBtn.addEventListener('click', () => item.remove());
+
+        item.append(source, kind, target, removeBtn);
+        termList.appendChild(item);
+    }
+
+    termReview.classList.remove('hidden');
+}
+
+function readReviewedTerms(): TermEntry[] {
+    return Array.from(termList.querySelectorAll<HTMLDivElement>('.term-item')).map(item => {
+        const source = item.dataset.source || '';
+        const target = item.querySelector('input')?.value.trim();
+        return { source, target: target || source, kind: item.dataset.kind as TermEntry['kind'] };
+    });
+}
+
+/**
+ * Starts (or resumes) a generation job
+ *
+ * @param terms - Reviewed term map when resuming after term review
+ */
+async function startGeneration(allowWhisper: boolean, terms?: TermEntry[]): Promise<void> {
     const apiKey = apiKeyInput.value.trim();
     const language = languageSelect.value;
 
-    if (!apiKey) {
-        showToast('API Key required', 'error');
+    // Get provider, model and parallelism from settings
+    const settings = await chrome.storage.local.get([
+        'provider',
+        'providerKeys',
+        'baseUrl',
+        'transcribeOnServer',
+        'model',
+        'concurrency',
+        'extractTerms',
+        'chunkConfig'
+    ]);
+    const providerId: ProviderId = settings.provider || 'openai';
+    const provider: ProviderConfig = {
+        id: providerId,
+        apiKey: providerId === 'openai' ? apiKey : (settings.providerKeys?.[providerId] || ''),
+        baseUrl: settings.baseUrl
+    };
+    const model = settings.model || DEFAULT_MODELS[providerId];
+    const concurrency = settings.concurrency || 3;
+
+    // Self-hosted servers may run without a key
+    if (!provider.apiKey && providerId !== 'openai-compatible') {
+        showToast(`${PROVIDER_NAMES[providerId]} API Key required`, 'error');
+        return;
+    }
+
+    // Whisper runs on OpenAI unless the self-hosted server handles it
+    const transcribeOnServer = providerId === 'openai-compatible' && !!settings.transcribeOnServer;
+    if (allowWhisper && !apiKey && !transcribeOnServer) {
+        showToast('Whisper needs an OpenAI API Key', 'error');
         return;
     }
 
     // Get current tab info
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-    if (!tab?.url?.includes('youtube.com/watch')) {
+    if (!tab?.id || !tab.url?.includes('youtube.com/watch')) {
         showToast('Please open a YouTube video first', 'error');
         return;
     }
@@ -219,38 +545,39 @@ generateBtn.addEventListener('click', async () => {
         return;
     }
 
+    currentTabId = tab.id;
+    currentVideoId = videoId;
+
     // Show progress
     progressContainer.classList.remove('hidden');
     resultContainer.classList.add('hidden');
+    whisperPrompt.classList.add('hidden');
+    termReview.classList.add('hidden');
     generateBtn.disabled = true;
     resetProgress();
-    updateProgress(1, 'Extracting transcript...');
+    updateProgress(1, terms ? 'Resuming with reviewed terms...'
+        : allowWhisper ? 'Transcribing audio with Whisper...' : 'Extracting transcript...');
 
     try {
-        // Get model from settings
-        const settings = await chrome.storage.local.get(['model']);
-        const model = settings.model || 'gpt-4o-mini';
-
-        // Set timeout for no response
-        let responseReceived = false;
-        const timeoutId = setTimeout(() => {
-            if (!responseReceived) {
-                showToast('Generation timed out. Check console for errors.', 'error');
-                resetUI();
-            }
-        }, 120000); // 2 minute timeout
-
+        // The background worker runs the job and reports back through JOB_UPDATE,
+        // so the popup can be closed at any time
         chrome.runtime.sendMessage({
             action: 'GENERATE_SUBTITLES',
+            tabId: tab.id,
             videoId,
             apiKey,
+            provider,
+            transcribeOnServer,
             language,
             model,
-            videoTitle: tab.title || 'Unknown Video'
-        }, async (response) => {
-            responseReceived = true;
-            clearTimeout(timeoutId);
-
+            concurrency,
+            chunkConfig: settings.chunkConfig,
+            videoTitle: tab.title || 'Unknown Video',
+            trackId: captionTrackSelect.value || undefined,
+            allowWhisper,
+            extractTerms: !!settings.extractTerms,
+            terms
+        }, (response) => {
             // Check for Chrome runtime errors
             if (chrome.runtime.lastError) {
                 console.error('[BringYourSub] Runtime error:', chrome.runtime.lastError);
@@ -259,44 +586,174 @@ generateBtn.addEventListener('click', async () => {
                 return;
             }
 
-            if (!response) {
+            if (!response?.job) {
                 showToast('No response from background. Try reloading extension.', 'error');
                 resetUI();
                 return;
             }
 
-            if (response.error) {
-                showToast('Error: ' + response.error, 'error');
-                resetUI();
-            } else if (response.subtitles) {
-                updateProgress(4, 'Complete!');
-                showResult(response.subtitles);
-                showToast('Subtitles generated successfully!', 'success');
-
-                // Auto-apply if enabled
-                const autoSettings = await chrome.storage.local.get(['autoApply']);
-                if (autoSettings.autoApply) {
-                    applySubtitlesToVideo(response.subtitles);
-                }
-            } else {
-                showToast('Unexpected response format', 'error');
-                resetUI();
-            }
+            renderJob(response.job, true);
         });
     } catch (err) {
         console.error('[BringYourSub] Generate error:', err);
         showToast('Unexpected error occurred', 'error');
         resetUI();
     }
+}
+
+cancelBtn.addEventListener('click', () => {
+    cancelBtn.disabled = true;
+    statusText.textContent = 'Cancelling...';
+
+    chrome.runtime.sendMessage({ action: 'CANCEL_GENERATION', tabId: currentTabId }, (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+            cancelBtn.disabled = false;
+            showToast('Nothing to cancel', 'info');
+        }
+    });
 });
 
-function showResult(subtitles: string): void {
+/**
+ * Updates the UI from a job record
+ *
+ * @param announce - Show toasts for finished jobs (false when reopening the popup)
+ */
+function renderJob(job: GenerationJob, announce: boolean): void {
+    switch (job.status) {
+        case 'running':
+            progressContainer.classList.remove('hidden');
+            resultContainer.classList.add('hidden');
+            whisperPrompt.classList.add('hidden');
+            termReview.classList.add('hidden');
+            generateBtn.disabled = true;
+            updateProgress(job.progress.step, job.progress.text);
+            break;
+
+        case 'needs_whisper':
+            progressContainer.classList.add('hidden');
+            whisperEstimate.textContent = job.result?.whisperEstimate || 'about $0.006 per minute of audio';
+            whisperPrompt.classList.remove('hidden');
+            generateBtn.disabled = false;
+            break;
+
+        case 'needs_review':
+            progressContainer.classList.add('hidden');
+            reviewUsedWhisper = !!job.result?.usedWhisper;
+            showTermReview(job.result?.terms || []);
+            generateBtn.disabled = false;
+            break;
+
+        case 'completed':
+            updateProgress(4, 'Complete!');
+            showResult(job.result?.subtitles || '', job.result?.glossaryViolations, job.result?.sourceSubtitles);
+            if (announce) {
+                showToast(
+                    job.result?.usedWhisper
+                        ? 'Subtitles generated from Whisper transcription!'
+                        : 'Subtitles generated successfully!',
+                    'success'
+                );
+            }
+            break;
+
+        case 'cancelled':
+            if (job.result?.subtitles) {
+                showResult(job.result.subtitles, job.result.glossaryViolations, job.result.sourceSubtitles);
+                if (announce) showToast('Generation cancelled, partial subtitles kept', 'info');
+            } else {
+                resetUI();
+                if (announce) showToast('Generation cancelled', 'info');
+            }
+            break;
+
+        case 'failed':
+            resetUI();
+            if (announce) showToast('Error: ' + job.error, 'error');
+            break;
+    }
+}
+
+/**
+ * Picks up the job of the current video when the popup is reopened
+ */
+async function restoreJob(): Promise<void> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id || !tab.url?.includes('youtube.com/watch')) return;
+
+    const videoId = new URL(tab.url).searchParams.get('v');
+    if (!videoId) return;
+
+    currentTabId = tab.id;
+    currentVideoId = videoId;
+
+    chrome.runtime.sendMessage({ action: 'GET_JOB', tabId: tab.id, videoId }, (response) => {
+        if (chrome.runtime.lastError || !response?.job) {
+            showSavedEntry(videoId);
+            return;
+        }
+        renderJob(response.job, false);
+    });
+}
+
+/**
+ * Shows subtitles saved for this video with the current language and model
+ */
+async function showSavedEntry(videoId: string): Promise<void> {
+    const settings = await chrome.storage.local.get(['targetLanguage', 'provider', 'model']);
+    const entry = await getEntry(
+        videoId,
+        settings.targetLanguage || languageSelect.value,
+        settings.model || DEFAULT_MODELS[(settings.provider || 'openai') as ProviderId]
+    );
+    if (!entry) return;
+
+    showResult(entry.subtitles, [], entry.sourceSubtitles);
+    showToast('Loaded saved subtitles from History', 'info');
+}
+
+/**
+ * @param sourceSubtitles - Original text of the subtitles, for dual subtitles
+ */
+function showResult(subtitles: string, violations: GlossaryViolation[] = [], sourceSubtitles?: string): void {
     progressContainer.classList.add('hidden');
     resultContainer.classList.remove('hidden');
     outputPreview.value = subtitles;
+    currentSourceSubtitles = sourceSubtitles;
+    showGlossaryIssues(violations);
     generateBtn.disabled = false;
 }
 
+/**
+ * Lists cues whose translation does not contain the expected glossary term
+ */
+function showGlossaryIssues(violations: GlossaryViolation[]): void {
+    glossaryIssues.innerHTML = '';
+    glossaryIssues.classList.toggle('hidden', violations.length === 0);
+    if (violations.length === 0) return;
+
+    const heading = document.createElement('strong');
+    heading.textContent = `⚠ ${violations.length} cue(s) may not follow your glossary`;
+
+    const list = document.createElement('ul');
+    for (const violation of violations) {
+        const item = document.createElement('li');
+        const time = violation.startTime !== undefined
+            ? formatTimestamp(violation.startTime)
+            : `Part ${violation.chunkIndex}`;
+        item.textContent = `${time}: "${violation.source}" should be "${violation.expected}"`;
+        item.title = violation.translation;
+        list.appendChild(item);
+    }
+
+    glossaryIssues.append(heading, list);
+}
+
+function formatTimestamp(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${minutes}:${String(secs).padStart(2, '0')}`;
+}
+
 function resetUI(): void {
     progressContainer.classList.add('hidden');
     generateBtn.disabled = false;
@@ -320,35 +777,130 @@ copyBtn.addEventListener('click', async () => {
 });
 
 downloadBtn.addEventListener('click', () => {
-    const text = outputPreview.value;
-    const blob = new Blob([text], { type: 'text/plain' });
+    downloadSubtitles(
+        outputPreview.value,
+        'subtitles',
+        `Translated to ${languageSelect.value} by BringYourSub`,
+        currentSourceSubtitles,
+        currentVideoId
+    );
+});
+
+downloadFormatSelect.addEventListener('change', () => {
+    chrome.storage.local.set({ downloadFormat: downloadFormatSelect.value });
+});
+
+/**
+ * Downloads SRT subtitles in the format chosen next to the Download button
+ *
+ * WebVTT and ASS files follow the display settings (position, font size,
+ * ASS style). Bilingual SRT and ASS files add the original text in the
+ * dual subtitle layout and color. The timing correction saved for the
+ * video on the player is applied to every format.
+ *
+ * @param note - Comment written into WebVTT and ASS files
+ * @param sourceSrt - Original text, required for bilingual files
+ * @param videoId - Video whose timing correction applies
+ */
+async function downloadSubtitles(
+    srt: string,
+    baseName: string,
+    note?: string,
+    sourceSrt?: string,
+    videoId?: string
+): Promise<void> {
+    const bilingual = downloadFormatSelect.value.endsWith('-bilingual');
+    const format = downloadFormatSelect.value.replace('-bilingual', '') as SubtitleFormat;
+    const notes = note ? [note] : [];
+    const timing = videoId ? await getTiming(videoId) : null;
+    const adjusted = isTimingAdjusted(timing);
+    let text = srt;
+
+    if (format !== 'srt' || bilingual || adjusted) {
+        let { cues } = parseSRT(srt);
+        if (cues.length === 0) {
+            showToast(`Could not convert these subtitles to .${format.toUpperCase()}`, 'error');
+            return;
+        }
+
+        if (bilingual) {
+            cues = pairSourceCues(cues, sourceSrt ? parseSRT(sourceSrt).cues : []);
+            if (!cues.some(cue => cue.source)) {
+                showToast('These subtitles have no original text for a bilingual file', 'error');
+                return;
+            }
+        }
+
+        if (timing && adjusted) {
+            cues = adjustCues(cues, timing);
+            notes.push(`Timing corrected by ${describeTiming(timing)}`);
+        }
+
+        const preset = assStyleSelect.value as ASSPreset;
+        const layout: DualLayout = dualSubtitlesSelect.value === 'split' ? 'split' : 'stacked';
+
+        if (format === 'srt') {
+            text = bilingual ? formatBilingualSRT(cues, sourceColorSelect.value) : formatSRT(cues);
+        } else if (format === 'vtt') {
+            text = generateVTT(cues, { position: positionSelect.value === 'top' ? 'top' : 'bottom', notes });
+        } else {
+            const style = createASSStyle('Default', preset, fontSizeSelect.value, positionSelect.value);
+            text = generateASS(bilingual ? toBilingualASSCues(cues) : cues, {
+                title: baseName,
+                styles: bilingual
+                    ? [style, createSourceASSStyle(preset, fontSizeSelect.value, positionSelect.value, layout, sourceColorSelect.value)]
+                    : [style],
+                notes
+            });
+        }
+    }
+
+    const filename = `${baseName}${bilingual ? '.bilingual' : ''}.${format}`;
+    const blob = new Blob([text], { type: format === 'vtt' ? 'text/vtt' : 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'subtitles.srt';
+    a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
-    showToast('Download started', 'info');
-});
+    showToast(timing && adjusted ? `Download started (timing ${describeTiming(timing)})` : 'Download started', 'info');
+}
 
 applyBtn.addEventListener('click', () => {
-    applySubtitlesToVideo(outputPreview.value);
+    applySubtitlesToVideo(outputPreview.value, currentSourceSubtitles);
 });
 
-async function applySubtitlesToVideo(subtitles: string): Promise<void> {
+/**
+ * Sends subtitles to the overlay after checking that they can be read
+ *
+ * Cues with errors are skipped by the overlay; the first error is shown so
+ * the file can be fixed.
+ */
+async function applySubtitlesToVideo(subtitles: string, sourceSubtitles?: string): Promise<void> {
+    const { cues, errors } = parseSubtitles(subtitles);
+    if (cues.length === 0) {
+        showToast(`No subtitles could be read. ${describeParseErrors(errors)}`, 'error');
+        return;
+    }
+
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     if (!tab?.id) return;
 
     // Get settings
-    const settings = await chrome.storage.local.get(['fontSize', 'position']);
+    const settings = await chrome.storage.local.get(['fontSize', 'position', 'dualSubtitles', 'sourceColor']);
 
     chrome.tabs.sendMessage(tab.id, {
         action: 'APPLY_SUBTITLES',
         subtitles,
+        sourceSubtitles,
         fontSize: settings.fontSize || 'medium',
-        position: settings.position || 'bottom'
+        position: settings.position || 'bottom',
+        dualSubtitles: settings.dualSubtitles || 'off',
+        sourceColor: settings.sourceColor
     }, (response) => {
-        if (response?.success) {
+        if (response?.success && errors.length > 0) {
+            showToast(`Applied ${cues.length} cues, skipped ${errors.length}. ${describeParseErrors(errors)}`, 'info');
+        } else if (response?.success) {
             showToast('Subtitles applied to video!', 'success');
         } else {
             showToast('Failed to apply subtitles', 'error');
@@ -356,21 +908,348 @@ async function applySubtitlesToVideo(subtitles: string): Promise<void> {
     });
 }
 
+// =====================
+// Local Subtitle Files
+// =====================
+openFileBtn.addEventListener('click', () => subtitleFileInput.click());
+
+subtitleFileInput.addEventListener('change', () => {
+    const file = subtitleFileInput.files?.[0];
+    subtitleFileInput.value = '';
+    if (file) openSubtitleFile(file);
+});
+
+/**
+ * Shows an SRT, WebVTT or ASS file in the result area and applies it to the
+ * open video, saving it to History when that setting is on
+ */
+async function openSubtitleFile(file: File): Promise<void> {
+    const text = await file.text();
+    const { cues, errors } = parseSubtitles(text, file.name);
+    if (cues.length === 0) {
+        showToast(`Could not read ${file.name}. ${describeParseErrors(errors)}`, 'error');
+        return;
+    }
+
+    showResult(formatSRT(cues));
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const videoId = tab?.url?.includes('youtube.com/watch') ? new URL(tab.url).searchParams.get('v') : null;
+    if (!tab?.id || !videoId) {
+        showToast('Open a YouTube video to apply the file', 'info');
+        return;
+    }
+
+    await applySubtitlesToVideo(text);
+
+    if (saveOpenedFilesCheckbox.checked) {
+        const title = await new Promise<string>((resolve) => {
+            chrome.tabs.sendMessage(tab.id!, { action: 'GET_METADATA' }, (response) => {
+                resolve(chrome.runtime.lastError || !response ? 'Unknown' : response.title);
+            });
+        });
+        await saveOpenedFile(videoId, title, languageSelect.value, file.name, cues);
+        loadHistory();
+    }
+}
+
+function describeParseErrors(errors: SubtitleParseError[]): string {
+    if (errors.length === 0) return 'The text contains no cues.';
+
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    return `Line ${first.line}: ${first.message}${more}`;
+}
+
+// =====================
+// History (Subtitle Library)
+// =====================
+async function loadHistory(): Promise<void> {
+    const entries = await listEntries();
+
+    historyList.innerHTML = '';
+    historyEmpty.classList.toggle('hidden', entries.length > 0);
+
+    for (const entry of entries) {
+        historyList.appendChild(createHistoryItem(entry));
+    }
+}
+
+function createHistoryItem(entry: LibraryEntry): HTMLDivElement {
+    const item = document.createElement('div');
+    item.className = 'history-item';
+
+    const title = document.createElement('span');
+    title.className = 'history-title';
+    title.textContent = entry.title;
+    title.title = entry.title;
+
+    const meta = document.createElement('span');
+    meta.className = 'history-meta';
+    meta.textContent = [
+        entry.language,
+        entry.fileName ?? entry.model,
+        entry.usedWhisper ? 'Whisper' : null,
+        new Date(entry.updatedAt).toLocaleDateString()
+    ].filter(Boolean).join(' · ');
+
+    const actions = document.createElement('div');
+    actions.className = 'action-group';
+
+    const applyEntryBtn = document.createElement('button');
+    applyEntryBtn.className = 'action-btn primary';
+    applyEntryBtn.innerHTML = '<span>▶</span> Apply';
+    applyEntryBtn.addEventListener('click', () => applyHistoryEntry(entry));
+
+    const exportBtn = document.createElement('button');
+    exportBtn.className = 'action-btn';
+    exportBtn.innerHTML = '<span>💾</span> Export';
+    exportBtn.addEventListener('click', () => {
+        const name = entry.title.replace(/[\\/:*?"<>|]/g, '_');
+        downloadSubtitles(
+            entry.subtitles,
+            `${name}.${entry.language}`,
+            `${entry.title} (${entry.language}, ${entry.model})`,
+            entry.sourceSubtitles,
+            entry.videoId
+        );
+    });
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.className = 'action-btn';
+    deleteBtn.innerHTML = '<span>🗑</span> Delete';
+    deleteBtn.addEventListener('click', async () => {
+        await deleteEntry(entry.id);
+        showToast('Subtitles deleted', 'info');
+        loadHistory();
+    });
+
+    actions.append(applyEntryBtn, exportBtn, deleteBtn);
+    item.append(title, meta, actions);
+    return item;
+}
+
+async function applyHistoryEntry(entry: LibraryEntry): Promise<void> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const videoId = tab?.url ? new URL(tab.url).searchParams.get('v') : null;
+
+    if (videoId !== entry.videoId) {
+        showToast('Open this video to apply its subtitles', 'error');
+        return;
+    }
+
+    applySubtitlesToVideo(entry.subtitles, entry.sourceSubtitles);
+}
+
 // =====================
 // Settings Management
 // =====================
 saveSettingsBtn.addEventListener('click', async () => {
+    const baseUrl = baseUrlInput.value.trim();
+
+    const chunkConfig = readChunkConfig();
+    const chunkErrors = validateChunkConfig(chunkConfig);
+    if (chunkErrors.length > 0) {
+        showToast(chunkErrors[0], 'error');
+        return;
+    }
+
+    if (selectedProvider === 'openai-compatible') {
+        // Ask before anything is awaited, the request needs the click gesture
+        const permission = requestServerPermission(baseUrl);
+        if (!permission) {
+            showToast('Enter a valid http(s) server URL', 'error');
+            return;
+        }
+        if (!(await permission)) {
+            showToast('Permission to reach the server was denied', 'error');
+            return;
+        }
+    }
+
+    if (selectedProvider !== 'openai') {
+        providerKeys[selectedProvider] = providerKeyInput.value.trim();
+    }
+
     const settings: Partial<Settings> = {
         fontSize: fontSizeSelect.value,
         position: positionSelect.value,
+        renderer: rendererSelect.value as Settings['renderer'],
+        assStyle: assStyleSelect.value as ASSPreset,
+        dualSubtitles: dualSubtitlesSelect.value as DualLayout | 'off',
+        sourceColor: sourceColorSelect.value,
         autoApply: autoApplyCheckbox.checked,
-        model: modelSelect.value
+        saveOpenedFiles: saveOpenedFilesCheckbox.checked,
+        provider: selectedProvider,
+        providerKeys,
+        baseUrl,
+        transcribeOnServer: transcribeOnServerCheckbox.checked,
+        model: selectedProvider === 'openai-compatible' ? customModelInput.value.trim() : modelSelect.value,
+        concurrency: parseInt(concurrencySelect.value, 10),
+        extractTerms: extractTermsCheckbox.checked,
+        chunkConfig
     };
 
     await chrome.storage.local.set(settings);
     showToast('Settings saved!', 'success');
 });
 
+/**
+ * Reads the advanced chunking fields, leaving empty ones unset
+ *
+ * Out-of-range fields are marked so the user can see which one to fix.
+ */
+function readChunkConfig(): Partial<ChunkConfig> {
+    const config: Partial<ChunkConfig> = {};
+
+    for (const [key, input] of Object.entries(chunkConfigInputs) as Array<[keyof ChunkConfig, HTMLInputElement]>) {
+        const value = input.value.trim();
+        if (!value) {
+            input.classList.remove('invalid');
+            continue;
+        }
+
+        const number = parseFloat(value);
+        const { min, max } = CHUNK_CONFIG_LIMITS[key];
+        config[key] = number;
+        input.classList.toggle('invalid', !(number >= min && number <= max));
+    }
+
+    return config;
+}
+
+// Swap the key, URL and model fields when another provider is picked
+providerSelect.addEventListener('change', () => {
+    if (selectedProvider !== 'openai') {
+        providerKeys[selectedProvider] = providerKeyInput.value.trim();
+    }
+    showProviderFields(providerSelect.value as ProviderId);
+});
+
+function showProviderFields(providerId: ProviderId, model?: string): void {
+    selectedProvider = providerId;
+    providerSelect.value = providerId;
+
+    // The OpenAI key lives on the Generate tab since Whisper needs it too
+    providerKeyItem.classList.toggle('hidden', providerId === 'openai');
+    providerKeyInput.value = providerKeys[providerId] || '';
+    baseUrlItem.classList.toggle('hidden', providerId !== 'openai-compatible');
+    transcribeOnServerItem.classList.toggle('hidden', providerId !== 'openai-compatible');
+
+    const models = PROVIDER_MODELS[providerId];
+    modelSelect.classList.toggle('hidden', models.length === 0);
+    customModelInput.classList.toggle('hidden', models.length > 0);
+
+    if (models.length === 0) {
+        customModelInput.value = model || '';
+        return;
+    }
+
+    modelSelect.innerHTML = '';
+    for (const option of models) {
+        const element = document.createElement('option');
+        element.value = option.value;
+        element.textContent = option.label;
+        modelSelect.appendChild(element);
+    }
+    modelSelect.value = model && models.some(option => option.value === model)
+        ? model
+        : DEFAULT_MODELS[providerId];
+}
+
+// =====================
+// Glossary
+// =====================
+function renderGlossary(): void {
+    glossaryList.innerHTML = '';
+    glossaryEmpty.classList.toggle('hidden', glossary.length > 0);
+
+    glossary.forEach((entry, index) => {
+        const item = document.createElement('div');
+        item.className = 'glossary-item';
+
+        const term = document.createElement('span');
+        term.className = 'glossary-term';
+        term.textContent = entry.target ? `${entry.source} → ${entry.target}` : `${entry.source} (keep)`;
+        term.title = term.textContent;
+
+        const scope = document.createElement('span');
+        scope.className = 'glossary-scope';
+        scope.textContent = entry.scope === 'global' ? 'All videos'
+            : entry.scope === 'channel' ? `Channel: ${entry.scopeId}`
+                : `Video: ${entry.scopeId}`;
+
+        const removeBtn = document.createElement('button');
+        removeBtn.className = 'glossary-remove';
+        removeBtn.textContent = '✕';
+        removeBtn.title = 'Remove';
+        removeBtn.addEventListener('click', async () => {
+            glossary.splice(index, 1);
+            await chrome.storage.local.set({ glossary });
+            renderGlossary();
+        });
+
+        item.append(term, scope, removeBtn);
+        glossaryList.appendChild(item);
+    });
+}
+
+/**
+ * Returns the ID a scoped entry applies to, read from the open video
+ */
+async function getGlossaryScopeId(scope: GlossaryScope): Promise<string | undefined> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id || !tab.url?.includes('youtube.com/watch')) return undefined;
+
+    if (scope === 'video') {
+        return new URL(tab.url).searchParams.get('v') || undefined;
+    }
+
+    return new Promise((resolve) => {
+        chrome.tabs.sendMessage(tab.id!, { action: 'GET_METADATA' }, (response) => {
+            if (chrome.runtime.lastError || !response || response.channel === 'Unknown') {
+                resolve(undefined);
+            } else {
+                resolve(response.channel);
+            }
+        });
+    });
+}
+
+addGlossaryBtn.addEventListener('click', async () => {
+    const source = glossarySourceInput.value.trim();
+    const target = glossaryTargetInput.value.trim();
+    const scope = glossaryScopeSelect.value as GlossaryScope;
+
+    if (!source) {
+        showToast('Enter a term', 'error');
+        return;
+    }
+
+    const entry: GlossaryEntry = { source, target: target || undefined, scope };
+    if (scope !== 'global') {
+        entry.scopeId = await getGlossaryScopeId(scope);
+        if (!entry.scopeId) {
+            showToast(`Open a YouTube video to add a ${scope} term`, 'error');
+            return;
+        }
+    }
+
+    // Replace an existing entry for the same term and scope
+    glossary = glossary.filter(existing => !(
+        existing.source.toLowerCase() === source.toLowerCase() &&
+        existing.scope === scope &&
+        existing.scopeId === entry.scopeId
+    ));
+    glossary.push(entry);
+
+    await chrome.storage.local.set({ glossary });
+    glossarySourceInput.value = '';
+    glossaryTargetInput.value = '';
+    renderGlossary();
+    showToast('Glossary term added', 'success');
+});
+
 // =====================
 // Load Saved Data
 // =====================
@@ -380,16 +1259,50 @@ async function loadSavedData(): Promise<void> {
         'targetLanguage',
         'fontSize',
         'position',
+        'renderer',
+        'assStyle',
+        'dualSubtitles',
+        'sourceColor',
         'autoApply',
-        'model'
+        'saveOpenedFiles',
+        'provider',
+        'providerKeys',
+        'baseUrl',
+        'transcribeOnServer',
+        'model',
+        'concurrency',
+        'extractTerms',
+        'chunkConfig',
+        'glossary',
+        'downloadFormat'
     ]);
 
     if (data.openaiApiKey) apiKeyInput.value = data.openaiApiKey;
     if (data.targetLanguage) languageSelect.value = data.targetLanguage;
     if (data.fontSize) fontSizeSelect.value = data.fontSize;
     if (data.position) positionSelect.value = data.position;
+    if (data.renderer) rendererSelect.value = data.renderer;
+    if (data.assStyle) assStyleSelect.value = data.assStyle;
+    if (data.dualSubtitles) dualSubtitlesSelect.value = data.dualSubtitles;
+    if (data.sourceColor) sourceColorSelect.value = data.sourceColor;
     if (data.autoApply !== undefined) autoApplyCheckbox.checked = data.autoApply;
-    if (data.model) modelSelect.value = data.model;
+    if (data.saveOpenedFiles !== undefined) saveOpenedFilesCheckbox.checked = data.saveOpenedFiles;
+    if (data.providerKeys) providerKeys = data.providerKeys;
+    if (data.baseUrl) baseUrlInput.value = data.baseUrl;
+    if (data.transcribeOnServer !== undefined) transcribeOnServerCheckbox.checked = data.transcribeOnServer;
+    showProviderFields(data.provider || 'openai', data.model);
+    if (data.concurrency) concurrencySelect.value = String(data.concurrency);
+    if (data.extractTerms !== undefined) extractTermsCheckbox.checked = data.extractTerms;
+    if (data.chunkConfig) {
+        const chunkConfig = migrateChunkConfig(data.chunkConfig);
+        for (const [key, input] of Object.entries(chunkConfigInputs) as Array<[keyof ChunkConfig, HTMLInputElement]>) {
+            const value = chunkConfig[key];
+            input.value = value !== undefined ? String(value) : '';
+        }
+    }
+    if (data.glossary) glossary = data.glossary;
+    renderGlossary();
+    if (data.downloadFormat) downloadFormatSelect.value = data.downloadFormat;
 }
 
 // Save language when changed
@@ -428,22 +1341,13 @@ apiKeyInput.addEventListener('blur', () => {
 });
 
 // =====================
-// Progress Updates from Background
+// Job Updates from Background
 // =====================
 chrome.runtime.onMessage.addListener((message) => {
-    if (message.action === 'UPDATE_PROGRESS') {
-        const stepMap: { [key: string]: number } = {
-            'Checking for native transcript...': 1,
-            'No native transcript found': 1,
-            'Processing context and chunking...': 2,
-            'Translating': 3
-        };
-
-        for (const [prefix, step] of Object.entries(stepMap)) {
-            if (message.text.includes(prefix)) {
-                updateProgress(step, message.text);
-                break;
-            }
+    if (message.action === 'JOB_UPDATE') {
+        const job = message.job as GenerationJob;
+        if (job.tabId === currentTabId && job.videoId === currentVideoId) {
+            renderJob(job, true);
         }
     }
 });
@@ -468,6 +1372,51 @@ async function checkYouTubeVideo(): Promise<void> {
     }
 }
 
+// =====================
+// Caption Track Picker
+// =====================
+async function loadCaptionTracks(): Promise<void> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id || !tab.url?.includes('youtube.com/watch')) {
+        setCaptionTrackOptions([], null);
+        return;
+    }
+
+    chrome.tabs.sendMessage(tab.id, { action: 'GET_CAPTION_TRACKS' }, (response) => {
+        if (chrome.runtime.lastError || !response) {
+            setCaptionTrackOptions([], null);
+            return;
+        }
+        setCaptionTrackOptions(response.tracks || [], response.defaultTrackId);
+    });
+}
+
+function setCaptionTrackOptions(tracks: CaptionTrackInfo[], defaultTrackId: string | null): void {
+    captionTrackSelect.innerHTML = '';
+
+    if (tracks.length === 0) {
+        const option = document.createElement('option');
+        option.value = '';
+        option.textContent = 'No captions (Whisper fallback)';
+        captionTrackSelect.appendChild(option);
+        captionTrackSelect.disabled = true;
+        return;
+    }
+
+    // Human-made tracks first, auto-generated (ASR) tracks last
+    const sorted = [...tracks].sort((a, b) => Number(a.isAutoGenerated) - Number(b.isAutoGenerated));
+    for (const track of sorted) {
+        const option = document.createElement('option');
+        option.value = track.id;
+        option.textContent = `${track.isAutoGenerated ? '🤖' : '✍️'} ${track.name} (${track.languageCode})`;
+        option.title = track.isAutoGenerated ? 'Auto-generated captions' : 'Manual captions';
+        captionTrackSelect.appendChild(option);
+    }
+
+    captionTrackSelect.value = defaultTrackId || sorted[0].id;
+    captionTrackSelect.disabled = false;
+}
+
 // =====================
 // Storage Debug
 // =====================
@@ -478,5 +1427,6 @@ async function debugStorage(): Promise<void> {
 
 // Initialize
 loadSavedData();
-checkYouTubeVideo();
+checkYouTubeVideo().then(restoreJob);
+loadCaptionTracks();
 debugStorage();
@@ -0,0 +1,160 @@
+/**
+ * Audio Splitting Module
+ *
+ * YouTube serves audio-only streams as fragmented MP4 (DASH). The segment
+ * index (`sidx` box) lists the byte size and duration of every fragment,
+ * so an init segment followed by any run of whole fragments is a playable
+ * file on its own. This lets long audio be sent to Whisper in pieces that
+ * stay under the upload limit.
+ *
+ * @module ai-core/audio
+ */
+
+/** Parsed `sidx` box */
+export interface SegmentIndex {
+    timescale: number;
+    earliestPresentationTime: number;
+    firstOffset: number;
+    references: Array<{
+        size: number; // bytes
+        duration: number; // timescale units
+    }>;
+}
+
+/** Media fragment located in the stream */
+export interface MediaFragment {
+    byteStart: number;
+    byteEnd: number; // inclusive
+    startTime: number; // seconds
+    duration: number; // seconds
+}
+
+/** Contiguous run of fragments transcribed as one file */
+export interface AudioPiece {
+    byteStart: number;
+    byteEnd: number; // inclusive
+    startTime: number; // seconds
+    endTime: number; // seconds
+}
+
+/**
+ * Parses a `sidx` box from the bytes of a format's index range
+ *
+ * @returns The segment index or null if the data is not a `sidx` box
+ */
+export function parseSegmentIndex(data: ArrayBuffer): SegmentIndex | null {
+    const view = new DataView(data);
+    if (view.byteLength < 32) return null;
+
+    const type = String.fromCharCode(
+        view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7)
+    );
+    if (type !== "sidx") return null;
+
+    const version = view.getUint8(8);
+    const timescale = view.getUint32(16);
+
+    let earliestPresentationTime: number;
+    let firstOffset: number;
+    let position: number;
+
+    if (version === 0) {
+        earliestPresentationTime = view.getUint32(20);
+        firstOffset = view.getUint32(24);
+        position = 28;
+    } else {
+        earliestPresentationTime = view.getUint32(20) * 2 ** 32 + view.getUint32(24);
+        firstOffset = view.getUint32(28) * 2 ** 32 + view.getUint32(32);
+        position = 36;
+    }
+
+    position += 2; // reserved
+    const referenceCount = view.getUint16(position);
+    position += 2;
+
+    if (view.byteLength < position + referenceCount * 12) return null;
+
+    const references: SegmentIndex["references"] = [];
+    for (let i = 0; i < referenceCount; i++) {
+        references.push({
+            size: view.getUint32(position) & 0x7fffffff,
+            duration: view.getUint32(position + 4)
+        });
+        position += 12;
+    }
+
+    return { timescale, earliestPresentationTime, firstOffset, references };
+}
+
+/**
+ * Resolves the byte ranges and times of every fragment in the stream
+ *
+ * @param index - Parsed segment index
+ * @param indexEnd - Last byte of the index range (fragments follow it)
+ */
+export function getMediaFragments(index: SegmentIndex, indexEnd: number): MediaFragment[] {
+    const fragments: MediaFragment[] = [];
+    let byteStart = indexEnd + 1 + index.firstOffset;
+    let time = index.earliestPresentationTime;
+
+    for (const reference of index.references) {
+        fragments.push({
+            byteStart,
+            byteEnd: byteStart + reference.size - 1,
+            startTime: time / index.timescale,
+            duration: reference.duration / index.timescale
+        });
+        byteStart += reference.size;
+        time += reference.duration;
+    }
+
+    return fragments;
+}
+
+/**
+ * Groups fragments into pieces no larger than `maxBytes`
+ *
+ * Consecutive pieces overlap by at least `overlapSeconds` (when the size
+ * limit allows it) so words at a seam are fully heard in one of them.
+ */
+export function planAudioPieces(
+    fragments: MediaFragment[],
+    maxBytes: number,
+    overlapSeconds: number
+): AudioPiece[] {
+    const pieces: AudioPiece[] = [];
+    let i = 0;
+
+    while (i < fragments.length) {
+        const first = i;
+        let bytes = 0;
+
+        // Always take at least one fragment, even if it exceeds the limit
+        while (i < fragments.length) {
+            const size = fragments[i].byteEnd - fragments[i].byteStart + 1;
+            if (i > first && bytes + size > maxBytes) break;
+            bytes += size;
+            i++;
+        }
+
+        const last = fragments[i - 1];
+        const piece: AudioPiece = {
+            byteStart: fragments[first].byteStart,
+            byteEnd: last.byteEnd,
+            startTime: fragments[first].startTime,
+            endTime: last.startTime + last.duration
+        };
+        pieces.push(piece);
+
+        if (i >= fragments.length) break;
+
+        // Step back so the next piece repeats the tail of this one
+        let next = i;
+        while (next > first + 1 && piece.endTime - fragments[next].startTime < overlapSeconds) {
+            next--;
+        }
+        i = next;
+    }
+
+    return pieces;
+}
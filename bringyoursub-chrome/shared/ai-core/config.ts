@@ -0,0 +1,104 @@
+/**
+ * Chunking Configuration
+ *
+ * Settings that control how transcripts are cut for translation and how
+ * translations are cut into cues. Kept apart from the chunker so the popup
+ * can validate them without bundling the tokenizer.
+ *
+ * @module ai-core/config
+ */
+
+/** Configuration for chunking */
+export interface ChunkConfig {
+    /** Maximum tokens per chunk; when unset it is chosen from the transcript length */
+    maxTokens?: number;
+    /** Preferred cue duration in seconds */
+    targetSegmentDuration: number;
+    /** Cues shorter than this are merged into a neighbour (seconds) */
+    minSegmentDuration: number;
+    /** Sentences longer than this are split across cues (seconds) */
+    maxSegmentDuration: number;
+    /**
+     * Token budget of the context prompt: the end of the previous chunk and
+     * of a recent translation. Chunks themselves do not overlap.
+     */
+    contextTokens: number;
+}
+
+/** Configuration as saved in storage, possibly under earlier key names */
+export type StoredChunkConfig = Partial<ChunkConfig> & {
+    /** Earlier name of `contextTokens` */
+    overlapTokens?: number;
+};
+
+export const DEFAULT_CHUNK_CONFIG: ChunkConfig = {
+    targetSegmentDuration: 5,
+    minSegmentDuration: 1,
+    maxSegmentDuration: 7,
+    contextTokens: 400
+};
+
+/** Allowed range of every setting */
+export const CHUNK_CONFIG_LIMITS: Record<keyof ChunkConfig, { min: number; max: number; label: string }> = {
+    maxTokens: { min: 200, max: 16000, label: "Max tokens per chunk" },
+    targetSegmentDuration: { min: 1, max: 10, label: "Target cue duration" },
+    minSegmentDuration: { min: 0.5, max: 5, label: "Min cue duration" },
+    maxSegmentDuration: { min: 2, max: 15, label: "Max cue duration" },
+    contextTokens: { min: 0, max: 2000, label: "Previous context" }
+};
+
+/**
+ * Checks a configuration and returns one message per problem
+ */
+export function validateChunkConfig(config: Partial<ChunkConfig>): string[] {
+    const errors: string[] = [];
+
+    for (const key of Object.keys(CHUNK_CONFIG_LIMITS) as Array<keyof ChunkConfig>) {
+        const value = config[key];
+        if (value === undefined) continue;
+
+        const { min, max, label } = CHUNK_CONFIG_LIMITS[key];
+        if (!Number.isFinite(value) || value < min || value > max) {
+            errors.push(`${label} must be between ${min} and ${max}`);
+        }
+    }
+
+    const { minSegmentDuration: min, targetSegmentDuration: target, maxSegmentDuration: max } = resolveChunkConfig(config, false);
+    if (min > target || target > max) {
+        errors.push("Cue durations must satisfy min ≤ target ≤ max");
+    }
+
+    return errors;
+}
+
+/**
+ * Moves settings saved under earlier key names to their current keys
+ */
+export function migrateChunkConfig(config: StoredChunkConfig): Partial<ChunkConfig> {
+    const { overlapTokens, ...current } = config;
+    if (overlapTokens === undefined || current.contextTokens !== undefined) return current;
+    return { ...current, contextTokens: overlapTokens };
+}
+
+/**
+ * Fills in defaults, and by default clamps values into their allowed range
+ */
+export function resolveChunkConfig(stored: StoredChunkConfig = {}, clamp: boolean = true): ChunkConfig {
+    const config = migrateChunkConfig(stored);
+    const resolved: ChunkConfig = { ...DEFAULT_CHUNK_CONFIG };
+
+    for (const key of Object.keys(CHUNK_CONFIG_LIMITS) as Array<keyof ChunkConfig>) {
+        const value = config[key];
+        if (value === undefined || !Number.isFinite(value)) continue;
+
+        const { min, max } = CHUNK_CONFIG_LIMITS[key];
+        resolved[key] = clamp ? Math.min(max, Math.max(min, value)) : value;
+    }
+
+    if (clamp) {
+        resolved.minSegmentDuration = Math.min(resolved.minSegmentDuration, resolved.targetSegmentDuration);
+        resolved.maxSegmentDuration = Math.max(resolved.maxSegmentDuration, resolved.targetSegmentDuration);
+    }
+
+    return resolved;
+}
@@ -0,0 +1,111 @@
+/**
+ * Glossary Module
+ *
+ * User-defined terms that must keep a fixed translation, or stay verbatim
+ * (product names, API identifiers). Entries can apply everywhere, to one
+ * channel or to one video; the most specific entry for a term wins.
+ * Translations are checked afterwards and cues that miss an expected term
+ * are reported.
+ *
+ * @module ai-core/glossary
+ */
+
+/** Where a glossary entry applies */
+export type GlossaryScope = "global" | "channel" | "video";
+
+/** Glossary entry */
+export interface GlossaryEntry {
+    /** Term as it appears in the source */
+    source: string;
+    /** Required translation; empty means "do not translate" */
+    target?: string;
+    scope: GlossaryScope;
+    /** Channel name or video ID for scoped entries */
+    scopeId?: string;
+}
+
+/** Cue whose translation does not contain an expected glossary term */
+export interface GlossaryViolation {
+    chunkIndex: number;
+    /** Start time of the cue (timed transcripts only) */
+    startTime?: number;
+    source: string;
+    expected: string;
+    translation: string;
+}
+
+const SCOPE_PRIORITY: Record<GlossaryScope, number> = {
+    global: 0,
+    channel: 1,
+    video: 2
+};
+
+/**
+ * Returns the term a translation must contain for an entry
+ */
+export function getExpectedTerm(entry: GlossaryEntry): string {
+    return entry.target?.trim() || entry.source.trim();
+}
+
+/**
+ * Picks the entries that apply to a video
+ *
+ * When several scopes define the same source term, the video entry beats
+ * the channel entry, which beats the global one.
+ */
+export function selectGlossaryEntries(
+    entries: GlossaryEntry[],
+    video: { videoId?: string; channel?: string }
+): GlossaryEntry[] {
+    const byTerm = new Map<string, GlossaryEntry>();
+
+    for (const entry of entries) {
+        if (!entry.source.trim()) continue;
+        if (entry.scope === "channel" && entry.scopeId !== video.channel) continue;
+        if (entry.scope === "video" && entry.scopeId !== video.videoId) continue;
+
+        const key = entry.source.trim().toLowerCase();
+        const existing = byTerm.get(key);
+        if (!existing || SCOPE_PRIORITY[entry.scope] >= SCOPE_PRIORITY[existing.scope]) {
+            byTerm.set(key, entry);
+        }
+    }
+
+    return [...byTerm.values()];
+}
+
+/**
+ * Formats entries as rules for the system prompt
+ */
+export function formatGlossaryPrompt(entries: GlossaryEntry[]): string {
+    if (entries.length === 0) return "";
+
+    const rules = entries.map(entry => entry.target?.trim()
+        ? `- "${entry.source.trim()}" → "${entry.target.trim()}"`
+        : `- "${entry.source.trim()}" → keep as "${entry.source.trim()}" (do not translate)`);
+
+    return `Glossary (always use these exact terms):\n${rules.join("\n")}`;
+}
+
+/**
+ * Checks whether a text contains a term as a whole word, ignoring case
+ */
+export function containsTerm(text: string, term: string): boolean {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (!escaped) return false;
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, "iu").test(text);
+}
+
+/**
+ * Returns the entries whose source term appears in the source text but
+ * whose expected term is missing from the translation
+ */
+export function findGlossaryViolations(
+    source: string,
+    translation: string,
+    entries: GlossaryEntry[]
+): GlossaryEntry[] {
+    return entries.filter(entry =>
+        containsTerm(source, entry.source) && !containsTerm(translation, getExpectedTerm(entry))
+    );
+}
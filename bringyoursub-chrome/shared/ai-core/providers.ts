@@ -0,0 +1,360 @@
+/**
+ * Translation Providers
+ *
+ * Every LLM vendor has its own endpoint, auth header, request body and
+ * error shape. Providers hide those differences behind a single `complete`
+ * call and report failures the same way, so the pipeline's retry and
+ * rechunk logic works with any of them:
+ * - `ProviderError` with the HTTP status (429 = rate limit, 401/403 = bad key)
+ * - `Error("TOKEN_LIMIT_EXCEEDED")` when the input is too long for the model
+ *
+ * @module ai-core/providers
+ */
+
+/** Supported provider IDs */
+export type ProviderId = "openai" | "anthropic" | "gemini" | "openai-compatible";
+
+/** Chat message format shared by all providers */
+export interface ChatMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+/** Single completion request */
+export interface CompletionRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** Ask for a reply that is a single JSON object */
+    json?: boolean;
+    signal?: AbortSignal;
+}
+
+/** LLM backend used to translate chunks */
+export interface TranslationProvider {
+    readonly id: ProviderId;
+    /** Human-readable name used in error messages */
+    readonly name: string;
+    /**
+     * Returns the text of the model's reply
+     *
+     * @throws ProviderError on HTTP errors, Error("TOKEN_LIMIT_EXCEEDED") on oversized input
+     */
+    complete(request: CompletionRequest): Promise<string>;
+}
+
+/** Provider settings as stored by the extension */
+export interface ProviderConfig {
+    id: ProviderId;
+    apiKey: string;
+    /** Server URL for OpenAI-compatible providers (e.g. "http://localhost:8000/v1") */
+    baseUrl?: string;
+}
+
+/** Default model of each provider */
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+    "openai": "gpt-4o-mini",
+    "anthropic": "claude-3-5-haiku-latest",
+    "gemini": "gemini-2.0-flash",
+    "openai-compatible": ""
+};
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+/**
+ * HTTP error returned by a provider
+ */
+export class ProviderError extends Error {
+    readonly status: number;
+    /** Seconds to wait before retrying, when the server says so */
+    readonly retryAfter?: number;
+
+    constructor(message: string, status: number, retryAfter?: number) {
+        super(message);
+        this.name = "ProviderError";
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+
+    get isRateLimit(): boolean {
+        return this.status === 429;
+    }
+
+    get isAuthError(): boolean {
+        return this.status === 401 || this.status === 403;
+    }
+
+    /** The request itself was refused (4xx other than a rate limit); repeating it fails again */
+    get isClientError(): boolean {
+        return this.status >= 400 && this.status < 500 && !this.isRateLimit;
+    }
+}
+
+/**
+ * Converts a failed response into the shared error form
+ *
+ * @param kind - Classification made from the vendor's error body, if any
+ */
+function toProviderError(
+    providerName: string,
+    response: Response,
+    message: string | undefined,
+    kind?: "token_limit" | "auth"
+): Error {
+    if (kind === "token_limit") {
+        return new Error("TOKEN_LIMIT_EXCEEDED");
+    }
+
+    if (kind === "auth" || response.status === 401 || response.status === 403) {
+        return new ProviderError(`Invalid API key for ${providerName}`, kind === "auth" ? 401 : response.status);
+    }
+
+    const retryAfter = parseFloat(response.headers.get("retry-after") || "");
+    return new ProviderError(
+        message || `${providerName} API request failed (HTTP ${response.status})`,
+        response.status,
+        retryAfter > 0 ? retryAfter : undefined
+    );
+}
+
+/**
+ * Reads a JSON body, tolerating empty or non-JSON error pages
+ */
+async function readJSON(response: Response): Promise<unknown> {
+    try {
+        return await response.json();
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Reads a nested field of a JSON body, or undefined when any step is missing
+ */
+function getField(value: unknown, ...path: Array<string | number>): unknown {
+    let current = value;
+    for (const key of path) {
+        if (typeof current !== "object" || current === null) return undefined;
+        current = (current as Record<string | number, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * Returns a JSON value if it is a string
+ */
+function asString(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Any server implementing OpenAI's `/chat/completions` (vLLM, llama.cpp, Ollama, ...)
+ */
+export class OpenAICompatibleProvider implements TranslationProvider {
+    readonly id: ProviderId;
+    readonly name: string;
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+
+    constructor(apiKey: string, baseUrl: string, id: ProviderId = "openai-compatible", name = "OpenAI-compatible server") {
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+        this.id = id;
+        this.name = name;
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) {
+            headers["Authorization"] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            signal: request.signal,
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature ?? 0.3,
+                max_tokens: request.maxTokens ?? 4000,
+                response_format: request.json ? { type: "json_object" } : undefined
+            })
+        });
+
+        const data = await readJSON(response);
+
+        if (!response.ok) {
+            // OpenAI and Ollama nest the error, vLLM puts the message at the top level
+            const message = asString(getField(data, "error", "message")) ||
+                asString(getField(data, "error")) || asString(getField(data, "message"));
+            const isTokenLimit = getField(data, "error", "code") === "context_length_exceeded" ||
+                /maximum context length|context window|too many tokens/i.test(message || "");
+            throw toProviderError(this.name, response, message, isTokenLimit ? "token_limit" : undefined);
+        }
+
+        const content = getField(data, "choices", 0, "message", "content");
+        if (typeof content !== "string") {
+            throw new Error(`${this.name} returned no content`);
+        }
+        return content;
+    }
+}
+
+/**
+ * OpenAI Chat Completions
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+    constructor(apiKey: string) {
+        super(apiKey, OPENAI_BASE_URL, "openai", "OpenAI");
+    }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements TranslationProvider {
+    readonly id: ProviderId = "anthropic";
+    readonly name = "Anthropic";
+    private readonly apiKey: string;
+
+    constructor(apiKey: string) {
+        this.apiKey = apiKey;
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        // System prompts are a separate field rather than a message role
+        const system = request.messages
+            .filter((message) => message.role === "system")
+            .map((message) => message.content)
+            .join("\n\n");
+
+        // There is no JSON mode, so the reply is started with "{" instead
+        const messages = request.messages
+            .filter((message) => message.role !== "system")
+            .map((message) => ({ role: message.role, content: message.content }));
+        if (request.json) {
+            messages.push({ role: "assistant", content: "{" });
+        }
+
+        const response = await fetch(ANTHROPIC_URL, {
+            signal: request.signal,
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "x-api-key": this.apiKey,
+                "anthropic-version": "2023-06-01",
+                // Required for requests made from an extension rather than a server
+                "anthropic-dangerous-direct-browser-access": "true"
+            },
+            body: JSON.stringify({
+                model: request.model,
+                system: system || undefined,
+                messages,
+                temperature: request.temperature ?? 0.3,
+                max_tokens: request.maxTokens ?? 4000
+            })
+        });
+
+        const data = await readJSON(response);
+
+        if (!response.ok) {
+            const message = asString(getField(data, "error", "message"));
+            const kind = getField(data, "error", "type") === "authentication_error" ? "auth"
+                : /prompt is too long/i.test(message || "") ? "token_limit"
+                    : undefined;
+            throw toProviderError(this.name, response, message, kind);
+        }
+
+        const blocks = getField(data, "content");
+        const text = (Array.isArray(blocks) ? blocks : [])
+            .filter((block) => getField(block, "type") === "text")
+            .map((block) => asString(getField(block, "text")) || "")
+            .join("");
+        return request.json ? "{" + text : text;
+    }
+}
+
+/**
+ * Google Gemini `generateContent`
+ */
+export class GeminiProvider implements TranslationProvider {
+    readonly id: ProviderId = "gemini";
+    readonly name = "Google Gemini";
+    private readonly apiKey: string;
+
+    constructor(apiKey: string) {
+        this.apiKey = apiKey;
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const system = request.messages
+            .filter((message) => message.role === "system")
+            .map((message) => message.content)
+            .join("\n\n");
+
+        const response = await fetch(
+            `${GEMINI_BASE_URL}/models/${encodeURIComponent(request.model)}:generateContent`,
+            {
+                signal: request.signal,
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "x-goog-api-key": this.apiKey
+                },
+                body: JSON.stringify({
+                    systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+                    contents: request.messages
+                        .filter((message) => message.role !== "system")
+                        .map((message) => ({
+                            role: message.role === "assistant" ? "model" : "user",
+                            parts: [{ text: message.content }]
+                        })),
+                    generationConfig: {
+                        temperature: request.temperature ?? 0.3,
+                        maxOutputTokens: request.maxTokens ?? 4000,
+                        responseMimeType: request.json ? "application/json" : undefined
+                    }
+                })
+            }
+        );
+
+        const data = await readJSON(response);
+
+        if (!response.ok) {
+            const message = asString(getField(data, "error", "message"));
+            // An invalid key is reported as a 400 INVALID_ARGUMENT
+            const kind = /API key not valid/i.test(message || "") ? "auth"
+                : /exceeds the maximum number of tokens|input token count/i.test(message || "") ? "token_limit"
+                    : undefined;
+            throw toProviderError(this.name, response, message, kind);
+        }
+
+        const parts = getField(data, "candidates", 0, "content", "parts");
+        if (!Array.isArray(parts) || parts.length === 0) {
+            const reason = asString(getField(data, "promptFeedback", "blockReason")) ||
+                asString(getField(data, "candidates", 0, "finishReason"));
+            throw new Error(`${this.name} returned no content${reason ? ` (${reason})` : ""}`);
+        }
+        return parts.map((part) => asString(getField(part, "text")) || "").join("");
+    }
+}
+
+/**
+ * Creates the provider described by stored settings
+ */
+export function createProvider(config: ProviderConfig): TranslationProvider {
+    switch (config.id) {
+        case "anthropic":
+            return new AnthropicProvider(config.apiKey);
+        case "gemini":
+            return new GeminiProvider(config.apiKey);
+        case "openai-compatible":
+            return new OpenAICompatibleProvider(config.apiKey, config.baseUrl || OPENAI_BASE_URL);
+        default:
+            return new OpenAIProvider(config.apiKey);
+    }
+}
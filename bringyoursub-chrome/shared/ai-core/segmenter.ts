@@ -0,0 +1,181 @@
+/**
+ * Sentence Segmentation
+ *
+ * Splits transcripts into sentences for chunking and subtitle timing:
+ * - Uses `Intl.Segmenter` where available, with a punctuation scanner as
+ *   fallback (。！？, Arabic ؟, Hindi ।, ellipses)
+ * - Keeps decimals ("3.5") and URLs ("example.com") intact
+ * - Does not break after abbreviations ("Dr.", "e.g.", "z.B.") or initials
+ * - Splits unpunctuated auto-captions at pauses in the caption timing
+ *
+ * @module ai-core/segmenter
+ */
+
+import type { TranscriptLine } from "./transcript.js";
+
+/** Abbreviations that end with a period but not a sentence, by language */
+const ABBREVIATIONS: Record<string, string[]> = {
+    en: ["mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "vs", "etc", "e.g", "i.e", "approx", "inc", "ltd", "co", "fig", "vol", "u.s"],
+    de: ["z.b", "bzw", "usw", "nr", "ca", "d.h", "u.a", "vgl", "hr", "fr"],
+    fr: ["mme", "mlle", "p.ex", "cf"],
+    es: ["sr", "sra", "srta", "ud", "uds", "p.ej"],
+    it: ["sig", "sig.ra", "ecc"],
+    tr: ["dr", "prof", "vb", "örn", "bkz", "yy"]
+};
+
+const ALL_ABBREVIATIONS = new Set(Object.values(ABBREVIATIONS).flat());
+
+/** Sentence-ending punctuation, optionally followed by closing quotes or brackets */
+const SENTENCE_END = /[.!?…。！？؟।]["'”’)\]」』]*$/;
+
+/** Punctuation that ends a sentence even without a following space */
+const SPACELESS_TERMINATORS = "。！？؟।";
+
+/**
+ * Splits text into sentences
+ *
+ * @param locale - Language of the text, used for segmentation rules and
+ *                 abbreviations (default: all known abbreviations)
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+    const segments = typeof Intl !== "undefined" && "Segmenter" in Intl
+        ? Array.from(new Intl.Segmenter(locale, { granularity: "sentence" }).segment(text), part => part.segment)
+        : scanSentences(text);
+
+    return mergeAbbreviations(segments, getAbbreviations(locale))
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Checks whether text ends a sentence (and not with an abbreviation)
+ */
+export function endsSentence(text: string, locale?: string): boolean {
+    const trimmed = text.trim();
+    return SENTENCE_END.test(trimmed) && !endsWithAbbreviation(trimmed, getAbbreviations(locale));
+}
+
+/**
+ * Merges caption lines into timed sentences
+ *
+ * Caption events rarely align with sentences, so consecutive lines are
+ * joined until one ends a sentence. Auto-generated captions often carry no
+ * punctuation at all; for those, a pause between captions ends the
+ * sentence instead. Sentences are always cut once they grow past
+ * `maxChars`.
+ *
+ * @param pauseSeconds - Silence between captions that ends an unpunctuated sentence
+ */
+export function groupIntoSentences(
+    lines: TranscriptLine[],
+    maxChars: number = 400,
+    pauseSeconds: number = 0.6
+): TranscriptLine[] {
+    const textLines = lines.filter(line => line.text.trim());
+    const punctuated = isPunctuated(textLines);
+
+    const sentences: TranscriptLine[] = [];
+    let current: TranscriptLine | null = null;
+
+    textLines.forEach((line, i) => {
+        const text = line.text.trim();
+
+        if (!current) {
+            current = { text, start: line.start, duration: line.duration };
+        } else {
+            current.text += " " + text;
+            current.duration = Math.max(current.duration, line.start + line.duration - current.start);
+        }
+
+        const next = textLines[i + 1];
+        const pauseFollows = !next || next.start - (line.start + line.duration) >= pauseSeconds;
+
+        if (
+            (punctuated ? endsSentence(text) : pauseFollows) ||
+            current.text.length >= maxChars
+        ) {
+            sentences.push(current);
+            current = null;
+        }
+    });
+
+    if (current) sentences.push(current);
+
+    return sentences;
+}
+
+/**
+ * Treats captions as punctuated when at least one line in ten ends a sentence
+ */
+function isPunctuated(lines: TranscriptLine[]): boolean {
+    if (lines.length === 0) return true;
+    const endings = lines.filter(line => endsSentence(line.text)).length;
+    return endings >= Math.max(1, lines.length / 10);
+}
+
+function getAbbreviations(locale?: string): Set<string> {
+    const language = locale?.toLowerCase().split(/[-_]/)[0];
+    return language && ABBREVIATIONS[language] ? new Set(ABBREVIATIONS[language]) : ALL_ABBREVIATIONS;
+}
+
+/**
+ * Checks whether text ends with a known abbreviation, an initial ("J.")
+ * or a dotted acronym ("U.N.")
+ *
+ * "I." is read as the English pronoun rather than an initial.
+ */
+function endsWithAbbreviation(text: string, abbreviations: Set<string>): boolean {
+    const match = text.match(/(?:^|[\s("'])([\p{L}.]+)\.$/u);
+    if (!match) return false;
+
+    const word = match[1];
+    return abbreviations.has(word.toLowerCase()) ||
+        (/^\p{Lu}$/u.test(word) && word !== "I") ||
+        /^(\p{L}\.)+\p{L}$/u.test(word);
+}
+
+/**
+ * Joins segments that were split right after an abbreviation
+ */
+function mergeAbbreviations(segments: string[], abbreviations: Set<string>): string[] {
+    const merged: string[] = [];
+
+    for (const segment of segments) {
+        const previous = merged[merged.length - 1];
+        if (previous !== undefined && endsWithAbbreviation(previous.trim(), abbreviations)) {
+            merged[merged.length - 1] = previous + segment;
+        } else {
+            merged.push(segment);
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Punctuation-based splitting for runtimes without `Intl.Segmenter`
+ *
+ * Latin punctuation only ends a sentence before whitespace, so decimals
+ * and URLs stay intact; an ellipsis followed by a lowercase word does not
+ * end the sentence.
+ */
+function scanSentences(text: string): string[] {
+    const sentences: string[] = [];
+    const boundary = /[.!?…。！？؟।]+["'”’)\]」』]*(\s+|$)?/g;
+    let start = 0;
+
+    for (const match of text.matchAll(boundary)) {
+        const end = match.index! + match[0].length;
+        const spaceless = SPACELESS_TERMINATORS.includes(match[0][0]);
+        if (match[1] === undefined && !spaceless) continue;
+
+        const isEllipsis = /^(\.{2,}|…)/.test(match[0]);
+        if (isEllipsis && /^\p{Ll}/u.test(text.slice(end))) continue;
+
+        sentences.push(text.slice(start, end));
+        start = end;
+    }
+
+    if (start < text.length) sentences.push(text.slice(start));
+    return sentences;
+}
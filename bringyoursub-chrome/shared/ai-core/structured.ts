@@ -0,0 +1,109 @@
+/**
+ * Structured Cue Translation
+ *
+ * Free-text replies cannot show whether the model dropped, merged or
+ * summarized sentences. Chunks are therefore sent as numbered cues and the
+ * model must answer with one JSON translation per cue id, which can be
+ * checked and retried cue by cue.
+ *
+ * @module ai-core/structured
+ */
+
+import type { TranscriptLine } from "./transcript.js";
+import { splitSentences } from "./segmenter.js";
+
+/** Numbered cue sent to the model */
+export interface Cue {
+    id: number;
+    text: string;
+}
+
+/** Validated model reply */
+export interface CueTranslationResult {
+    /** Translation of every id that was answered exactly once */
+    translations: Map<number, string>;
+    /** Ids that were missing, duplicated or not text */
+    missing: number[];
+}
+
+/**
+ * Returns the cue texts of a chunk: its timed sentences, or the sentences
+ * of its content for untimed transcripts
+ */
+export function getChunkCues(chunk: { content: string; lines?: TranscriptLine[] }): string[] {
+    if (chunk.lines && chunk.lines.length > 0) {
+        return chunk.lines.map(line => line.text);
+    }
+
+    return splitSentences(chunk.content);
+}
+
+/**
+ * Builds the user message for a set of cues
+ */
+export function buildCueMessage(cues: Cue[]): string {
+    return JSON.stringify({ cues });
+}
+
+/**
+ * Parses and validates a JSON reply against the ids that were sent
+ *
+ * Accepts `{"translations": [{id, text}]}` or a bare array, tolerating
+ * Markdown code fences around the JSON. Ids that were not asked for are
+ * ignored; an id answered more than once counts as missing.
+ */
+export function parseCueTranslations(raw: string, ids: number[]): CueTranslationResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(extractJSON(raw));
+    } catch {
+        return { translations: new Map(), missing: [...ids] };
+    }
+
+    const items: unknown[] = Array.isArray(data) ? data
+        : isRecord(data) && Array.isArray(data.translations) ? data.translations
+            : [];
+
+    const expected = new Set(ids);
+    const counts = new Map<number, number>();
+    const texts = new Map<number, string>();
+
+    for (const item of items) {
+        if (!isRecord(item) || typeof item.text !== "string") continue;
+
+        const id = Number(item.id);
+        if (!expected.has(id)) continue;
+
+        counts.set(id, (counts.get(id) || 0) + 1);
+        texts.set(id, item.text.trim());
+    }
+
+    const translations = new Map<number, string>();
+    const missing: number[] = [];
+
+    for (const id of ids) {
+        if (counts.get(id) === 1) {
+            translations.set(id, texts.get(id)!);
+        } else {
+            missing.push(id);
+        }
+    }
+
+    return { translations, missing };
+}
+
+/**
+ * Checks whether a parsed JSON value is an object whose fields can be read
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Cuts the JSON value out of a reply that may be wrapped in prose or fences
+ */
+function extractJSON(raw: string): string {
+    const start = raw.search(/[[{]/);
+    const end = Math.max(raw.lastIndexOf("}"), raw.lastIndexOf("]"));
+    return start >= 0 && end > start ? raw.slice(start, end + 1) : raw;
+}
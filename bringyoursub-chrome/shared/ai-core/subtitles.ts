@@ -0,0 +1,209 @@
+/**
+ * Subtitle Cues
+ *
+ * Format-independent cue type shared by the SRT, WebVTT and ASS parsers
+ * and serializers, and by the overlay.
+ *
+ * @module ai-core/subtitles
+ */
+
+/** Subtitle file formats that can be exported */
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+/** One subtitle cue */
+export interface SubtitleCue {
+    /** Start time in seconds */
+    start: number;
+    /** End time in seconds */
+    end: number;
+    /** Plain text; lines are separated by "\n" */
+    text: string;
+    /** Cue identifier (WebVTT) */
+    id?: string;
+    /** Cue settings such as "line:10% align:center" (WebVTT) */
+    settings?: string;
+    /** Name of the style the cue is shown in (ASS) */
+    style?: string;
+    /** Original text of a translated cue, for dual subtitles */
+    source?: string;
+}
+
+/**
+ * Formats seconds as "hh:mm:ss" followed by milliseconds
+ *
+ * @param separator - "," for SRT, "." for WebVTT
+ */
+export function formatTimestamp(seconds: number, separator: "," | "."): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hrs = Math.floor(totalMs / 3600000);
+    const mins = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${String(hrs).padStart(2, "0")}:${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}${separator}${String(ms).padStart(3, "0")}`;
+}
+
+/**
+ * Parses "hh:mm:ss,ttt", "hh:mm:ss.ttt" or "mm:ss.ttt" into seconds
+ */
+export function parseTimestamp(timestamp: string): number {
+    return timestamp
+        .replace(",", ".")
+        .split(":")
+        .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/** Cue shown at a point in time, and when that changes */
+export interface CueLookup {
+    cue: SubtitleCue | null;
+    /** Time at which the shown cue changes next; null after the last cue */
+    nextChange: number | null;
+}
+
+/**
+ * Finds the cue shown at a time, by binary search over cues sorted by
+ * start time
+ *
+ * A cue is shown from its start up to and including its end. Of
+ * overlapping cues, only the one that started last is considered.
+ */
+export function findCueAt(cues: SubtitleCue[], time: number): CueLookup {
+    // Last cue starting at or before `time`
+    let index = -1;
+    let low = 0;
+    let high = cues.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (cues[middle].start <= time) {
+            index = middle;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    const cue = index >= 0 && time <= cues[index].end ? cues[index] : null;
+    const nextStart = index + 1 < cues.length ? cues[index + 1].start : null;
+    const nextChange = cue && (nextStart === null || cue.end < nextStart) ? cue.end : nextStart;
+
+    return { cue, nextChange };
+}
+
+/** Problem found while reading a subtitle file */
+export interface SubtitleParseError {
+    /** 1-based line number in the file */
+    line: number;
+    message: string;
+}
+
+/** Cues read from a subtitle file, with the problems that were skipped */
+export interface SubtitleParseResult {
+    cues: SubtitleCue[];
+    errors: SubtitleParseError[];
+}
+
+/** Block of consecutive non-empty lines */
+export interface TextBlock {
+    /** Line number of the first line */
+    line: number;
+    lines: string[];
+}
+
+/**
+ * Splits subtitle text into blocks separated by blank lines
+ *
+ * Removes a UTF-8 byte order mark, accepts CRLF and CR line endings and
+ * trims trailing whitespace from every line.
+ */
+export function splitIntoBlocks(text: string): TextBlock[] {
+    const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/).map(line => line.trimEnd());
+    const blocks: TextBlock[] = [];
+    let current: TextBlock | null = null;
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            current = null;
+        } else if (current) {
+            current.lines.push(line);
+        } else {
+            current = { line: index + 1, lines: [line] };
+            blocks.push(current);
+        }
+    });
+
+    return blocks;
+}
+
+/** Styled run of cue text */
+export interface CueSpan {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    /** CSS color from a `<font color>` tag */
+    color?: string;
+}
+
+/** Tags kept in cue text */
+const MARKUP_TAG = /<(\/?)(i|b|u|font)\b([^>]*)>/gi;
+const SAFE_COLOR = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+
+/**
+ * Removes markup other than `<i>`, `<b>`, `<u>` and `<font color>`, and
+ * ASS override blocks such as `{\an8}`
+ */
+export function cleanCueMarkup(text: string): string {
+    return text
+        .replace(/\{\\[^}]*\}/g, "")
+        .replace(/<\/?([a-z][^\s>\/]*)[^>]*>/gi, (tag, name: string) =>
+            /^(i|b|u|font)$/i.test(name) ? tag : ""
+        );
+}
+
+/**
+ * Removes all markup, leaving plain text
+ */
+export function stripCueMarkup(text: string): string {
+    return text.replace(MARKUP_TAG, "");
+}
+
+/**
+ * Splits cue text into styled runs
+ *
+ * Unclosed tags apply to the end of the cue and stray closing tags are
+ * ignored. Colors that are not hex codes or color names are dropped.
+ */
+export function parseCueMarkup(text: string): CueSpan[] {
+    const spans: CueSpan[] = [];
+    const open: Array<{ tag: string; color?: string }> = [];
+    let position = 0;
+
+    const pushText = (value: string): void => {
+        if (!value) return;
+        const span: CueSpan = { text: value };
+        for (const { tag, color } of open) {
+            if (tag === "b") span.bold = true;
+            if (tag === "i") span.italic = true;
+            if (tag === "u") span.underline = true;
+            if (tag === "font" && color) span.color = color;
+        }
+        spans.push(span);
+    };
+
+    for (const match of text.matchAll(MARKUP_TAG)) {
+        pushText(text.slice(position, match.index));
+        position = match.index! + match[0].length;
+
+        const tag = match[2].toLowerCase();
+        if (match[1]) {
+            const index = open.map(item => item.tag).lastIndexOf(tag);
+            if (index >= 0) open.splice(index, 1);
+        } else {
+            const color = match[3].match(/color\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+            open.push({ tag, color: color && SAFE_COLOR.test(color) ? color : undefined });
+        }
+    }
+
+    pushText(text.slice(position));
+    return spans;
+}
@@ -18,10 +18,30 @@ export interface TranscriptLine {
 }
 
 /** YouTube player response caption track structure */
-interface CaptionTrack {
+export interface CaptionTrack {
     baseUrl: string;
     languageCode: string;
-    name?: { simpleText: string };
+    name?: { simpleText?: string; runs?: Array<{ text: string }> };
+    /** "asr" for auto-generated (speech recognition) tracks */
+    kind?: string;
+    /** Stable track identifier, e.g. ".en" or "a.en" */
+    vssId?: string;
+}
+
+/** Parts of the YouTube player response used for captions */
+export interface PlayerResponse {
+    videoDetails?: { videoId?: string; lengthSeconds?: string };
+    captions?: {
+        playerCaptionsTracklistRenderer?: { captionTracks?: CaptionTrack[] };
+    };
+}
+
+/** Caption track summary shown in the track picker */
+export interface CaptionTrackInfo {
+    id: string;
+    name: string;
+    languageCode: string;
+    isAutoGenerated: boolean;
 }
 
 /** YouTube transcript event segment */
@@ -29,8 +49,12 @@ interface TranscriptSegment {
     utf8: string;
 }
 
-/** YouTube transcript event */
-interface TranscriptEvent {
+/** YouTube transcript event (json3 format) */
+export interface TranscriptEvent {
+    /** Event start time in milliseconds */
+    tStartMs?: number;
+    /** Event duration in milliseconds */
+    dDurationMs?: number;
     segs?: TranscriptSegment[];
 }
 
@@ -40,54 +64,196 @@ interface TranscriptEvent {
  * This function:
  * 1. Fetches the YouTube video page
  * 2. Extracts the ytInitialPlayerResponse JSON
- * 3. Finds available caption tracks (prefers English)
- * 4. Fetches and normalizes the transcript text
+ * 3. Picks the requested caption track, or the best default track
+ * 4. Fetches the transcript and keeps the timing of every caption event
  * 
  * @param videoId - The YouTube video ID (e.g., "dQw4w9WgXcQ")
- * @returns The transcript text or null if unavailable
+ * @param trackId - Caption track to use (see `getCaptionTrackId`)
+ * @returns The timed transcript lines or null if unavailable
  * 
  * @example
  * ```typescript
- * const transcript = await getNativeYouTubeTranscript("dQw4w9WgXcQ");
- * if (transcript) {
- *     console.log("Got transcript:", transcript.substring(0, 100));
+ * const lines = await getNativeYouTubeTranscript("dQw4w9WgXcQ");
+ * if (lines) {
+ *     console.log("First caption at", lines[0].start, "s:", lines[0].text);
  * }
  * ```
  */
-export async function getNativeYouTubeTranscript(videoId: string): Promise<string | null> {
+export async function getNativeYouTubeTranscript(
+    videoId: string,
+    trackId?: string
+): Promise<TranscriptLine[] | null> {
     try {
         // Step 1: Fetch video page to find caption tracks
         const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
         const html = await response.text();
 
         // Step 2: Extract ytInitialPlayerResponse
-        const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?});/);
-        if (!playerResponseMatch) return null;
+        const playerResponse = parsePlayerResponse(html);
+        if (!playerResponse) return null;
 
-        const playerResponse = JSON.parse(playerResponseMatch[1]);
-        const captions: CaptionTrack[] | undefined =
-            playerResponse.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+        // Step 3: Pick the requested or best default track
+        const track = selectCaptionTrack(getCaptionTracks(playerResponse), trackId);
+        if (!track) return null;
 
-        if (!captions || captions.length === 0) return null;
+        // Step 4: Convert events into timed lines
+        const lines = await fetchCaptionTrack(track);
 
-        // Step 3: Prefer English or first available track
-        const track = captions.find((t) => t.languageCode === "en") || captions[0];
-        const transcriptResponse = await fetch(track.baseUrl + "&fmt=json3");
-        const transcriptData = await transcriptResponse.json();
+        return lines.length > 0 ? lines : null;
+    } catch (error) {
+        console.error("[BringYourSub] Error fetching native transcript:", error);
+        return null;
+    }
+}
+
+/**
+ * Extracts the ytInitialPlayerResponse JSON from a watch page or one of its scripts.
+ *
+ * @returns The player response, or null if the text has none
+ */
+export function parsePlayerResponse(html: string): PlayerResponse | null {
+    const match = html.match(/ytInitialPlayerResponse\s*=\s*({.+?});/);
+    if (!match) return null;
 
-        // Step 4: Normalize text (join segments, clean whitespace)
-        const text = (transcriptData.events as TranscriptEvent[])
-            .filter((e) => e.segs)
-            .map((e) => e.segs!.map((s) => s.utf8).join(""))
-            .join(" ")
+    try {
+        const data: unknown = JSON.parse(match[1]);
+        return data && typeof data === "object" ? data as PlayerResponse : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads the caption tracks from a YouTube player response.
+ */
+export function getCaptionTracks(playerResponse: PlayerResponse | null): CaptionTrack[] {
+    const tracks = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+    return Array.isArray(tracks) ? tracks : [];
+}
+
+/**
+ * Reads the video length in seconds from a YouTube player response.
+ */
+export function getVideoDuration(playerResponse: PlayerResponse | null): number | undefined {
+    const seconds = Number(playerResponse?.videoDetails?.lengthSeconds);
+    return seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Returns a stable identifier for a caption track.
+ */
+export function getCaptionTrackId(track: CaptionTrack): string {
+    return track.vssId || `${track.kind === "asr" ? "a" : ""}.${track.languageCode}`;
+}
+
+/**
+ * Guesses the spoken language of a video from its caption tracks.
+ *
+ * Auto-generated tracks are always in the spoken language, so the
+ * language of the ASR track is used when one exists.
+ */
+export function getSpokenLanguage(tracks: CaptionTrack[]): string | undefined {
+    return tracks.find((t) => t.kind === "asr")?.languageCode;
+}
+
+/**
+ * Picks a caption track.
+ *
+ * An explicitly requested track always wins. Otherwise human-made tracks
+ * in the spoken language are preferred over auto-generated ones, and
+ * English is the fallback when the spoken language is unknown.
+ *
+ * @param tracks - Available caption tracks
+ * @param trackId - Requested track (see `getCaptionTrackId`)
+ */
+export function selectCaptionTrack(tracks: CaptionTrack[], trackId?: string): CaptionTrack | null {
+    if (tracks.length === 0) return null;
+
+    if (trackId) {
+        const requested = tracks.find((t) => getCaptionTrackId(t) === trackId);
+        if (requested) return requested;
+    }
+
+    const baseLanguage = (code: string) => code.split("-")[0].toLowerCase();
+    const manualTracks = tracks.filter((t) => t.kind !== "asr");
+    const spokenLanguage = getSpokenLanguage(tracks);
+
+    if (spokenLanguage) {
+        return manualTracks.find((t) => baseLanguage(t.languageCode) === baseLanguage(spokenLanguage))
+            || tracks.find((t) => t.kind === "asr")
+            || null;
+    }
+
+    return manualTracks.find((t) => baseLanguage(t.languageCode) === "en")
+        || manualTracks[0]
+        || tracks[0];
+}
+
+/**
+ * Summarizes caption tracks for display in the popup.
+ */
+export function describeCaptionTracks(tracks: CaptionTrack[]): CaptionTrackInfo[] {
+    return tracks.map((track) => ({
+        id: getCaptionTrackId(track),
+        name: track.name?.simpleText
+            || track.name?.runs?.map((run) => run.text).join("")
+            || track.languageCode,
+        languageCode: track.languageCode,
+        isAutoGenerated: track.kind === "asr"
+    }));
+}
+
+/**
+ * Downloads a caption track as timed transcript lines.
+ */
+export async function fetchCaptionTrack(track: CaptionTrack): Promise<TranscriptLine[]> {
+    const transcriptResponse = await fetch(track.baseUrl + "&fmt=json3");
+    const transcriptData = await transcriptResponse.json();
+
+    return parseTranscriptEvents(transcriptData.events || []);
+}
+
+/**
+ * Converts json3 caption events into timed transcript lines.
+ *
+ * Events without text (window setup, ASR line-append markers) are skipped,
+ * and segment text is joined with whitespace normalized.
+ *
+ * @param events - The `events` array of a json3 transcript response
+ * @returns Timed lines in playback order
+ */
+export function parseTranscriptEvents(events: TranscriptEvent[]): TranscriptLine[] {
+    const lines: TranscriptLine[] = [];
+
+    for (const event of events) {
+        if (!event.segs) continue;
+
+        const text = event.segs
+            .map((s) => s.utf8)
+            .join("")
             .replace(/\s+/g, " ")
             .trim();
+        if (!text) continue;
 
-        return text || null;
-    } catch (error) {
-        console.error("[BringYourSub] Error fetching native transcript:", error);
-        return null;
+        lines.push({
+            text,
+            start: (event.tStartMs || 0) / 1000,
+            duration: (event.dDurationMs || 0) / 1000
+        });
     }
+
+    return lines.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Joins timed transcript lines into a single plain-text transcript.
+ */
+export function transcriptToText(lines: TranscriptLine[]): string {
+    return lines
+        .map((line) => line.text)
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
 }
 
 /**
@@ -0,0 +1,154 @@
+/**
+ * WebVTT Export and Import
+ *
+ * Writes cues as WebVTT with an optional `NOTE` block and cue settings for
+ * the overlay position, and reads WebVTT files back into cues. Italic, bold
+ * and underline tags are kept in both directions; styling blocks, colors and
+ * other cue markup are not.
+ *
+ * @module ai-core/vtt
+ */
+
+import {
+    formatTimestamp,
+    parseTimestamp,
+    splitIntoBlocks,
+    parseCueMarkup,
+    type SubtitleCue,
+    type SubtitleParseError,
+    type SubtitleParseResult
+} from "./subtitles.js";
+
+/** Options for `generateVTT` */
+export interface VTTOptions {
+    /** Places cues without their own settings at the top or bottom of the video */
+    position?: "top" | "bottom";
+    /** Comments written as `NOTE` blocks after the header */
+    notes?: string[];
+}
+
+/** Cue settings for each overlay position */
+const POSITION_SETTINGS: Record<NonNullable<VTTOptions["position"]>, string> = {
+    top: "line:5% align:center",
+    bottom: "line:-2 align:center"
+};
+
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})[ \t]+-->[ \t]+((?:\d+:)?\d{2}:\d{2}\.\d{3})(.*)$/;
+
+const ENTITIES: Record<string, string> = {
+    "&amp;": "&",
+    "&lt;": "<",
+    "&gt;": ">",
+    "&nbsp;": "\u00A0",
+    "&lrm;": "\u200E",
+    "&rlm;": "\u200F"
+};
+
+/**
+ * Serializes cues as WebVTT
+ */
+export function generateVTT(cues: SubtitleCue[], options: VTTOptions = {}): string {
+    const blocks = ["WEBVTT"];
+
+    for (const note of options.notes || []) {
+        // A note ends at the first blank line and must not contain "-->"
+        blocks.push(`NOTE ${note.replace(/-->/g, "->").replace(/\n\s*\n/g, "\n")}`);
+    }
+
+    const defaultSettings = options.position ? POSITION_SETTINGS[options.position] : "";
+
+    for (const cue of cues) {
+        const settings = cue.settings ?? defaultSettings;
+        const timing = `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}${settings ? " " + settings : ""}`;
+        const text = formatVTTCueText(cue.text).replace(/\n\s*\n/g, "\n");
+
+        blocks.push([cue.id, timing, text].filter(Boolean).join("\n"));
+    }
+
+    return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Parses WebVTT text into cues
+ *
+ * `NOTE`, `STYLE` and `REGION` blocks are skipped, markup tags are removed
+ * and character references decoded. Blocks without a valid timing line are
+ * reported with their line number.
+ */
+export function parseVTT(vttText: string): SubtitleParseResult {
+    const blocks = splitIntoBlocks(vttText);
+    if (blocks.length === 0 || !/^WEBVTT(?:[ \t]|$)/.test(blocks[0].lines[0])) {
+        return { cues: [], errors: [{ line: 1, message: "Missing WEBVTT header" }] };
+    }
+
+    const cues: SubtitleCue[] = [];
+    const errors: SubtitleParseError[] = [];
+
+    for (const { line, lines } of blocks.slice(1)) {
+        if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+        const timingIndex = lines.findIndex(text => text.includes("-->"));
+        if (timingIndex < 0 || timingIndex > 1) {
+            errors.push({ line, message: "Expected a timing line" });
+            continue;
+        }
+
+        const match = lines[timingIndex].trim().match(TIMING_LINE);
+        if (!match) {
+            errors.push({ line: line + timingIndex, message: "Invalid timing line" });
+            continue;
+        }
+
+        const start = parseTimestamp(match[1]);
+        const end = parseTimestamp(match[2]);
+        if (end < start) {
+            errors.push({ line: line + timingIndex, message: "Cue ends before it starts" });
+            continue;
+        }
+
+        const settings = match[3].trim();
+        cues.push({
+            start,
+            end,
+            text: unescapeText(lines.slice(timingIndex + 1).join("\n")).trim(),
+            ...(timingIndex === 1 ? { id: lines[0].trim() } : {}),
+            ...(settings ? { settings } : {})
+        });
+    }
+
+    return { cues, errors };
+}
+
+/**
+ * Writes cue text as WebVTT cue text, keeping italic, bold and underline
+ * markup and escaping everything else
+ */
+export function formatVTTCueText(text: string): string {
+    return parseCueMarkup(text).map(span => {
+        let html = escapeText(span.text);
+        if (span.bold) html = `<b>${html}</b>`;
+        if (span.italic) html = `<i>${html}</i>`;
+        if (span.underline) html = `<u>${html}</u>`;
+        return html;
+    }).join("");
+}
+
+/**
+ * Checks whether text starts with a WebVTT header
+ */
+export function isVTT(text: string): boolean {
+    return /^(\uFEFF)?WEBVTT(?:[ \t].*)?(?:\r?\n|$)/.test(text);
+}
+
+function escapeText(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function unescapeText(text: string): string {
+    return text
+        // Keeps <i>, <b> and <u> without their classes and drops other tags
+        .replace(/<(\/?)([^\s>.\/]*)[^>]*>/g, (tag, slash: string, name: string) =>
+            /^[ibu]$/.test(name) ? `<${slash}${name}>` : ""
+        )
+        .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, entity => ENTITIES[entity]);
+}
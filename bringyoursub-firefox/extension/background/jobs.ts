@@ -0,0 +1,182 @@
+/**
+ * BringYourSub - Generation Jobs
+ *
+ * The background worker owns one job record per tab and video. Records are
+ * persisted to chrome.storage so the popup can be closed and reopened
+ * during a generation without losing its progress or result. A job waiting
+ * for term review keeps its transcript next to its record, so resuming
+ * after the worker was stopped does not fetch or transcribe it again.
+ *
+ * @module background/jobs
+ */
+
+import type { GlossaryViolation } from "../../shared/ai-core/glossary.js";
+import type { TermEntry } from "../../shared/ai-core/terminology.js";
+import type { TranscriptLine } from "../../shared/ai-core/transcript.js";
+
+/** Lifecycle of a generation job */
+export type JobStatus = "running" | "needs_whisper" | "needs_review" | "completed" | "cancelled" | "failed";
+
+/** Result of a finished (or cancelled) job */
+export interface JobResult {
+    subtitles?: string;
+    /** SRT of the source text with the timings of `subtitles`, for dual subtitles */
+    sourceSubtitles?: string;
+    usedWhisper?: boolean;
+    warning?: string;
+    /** Cues that may not use the expected glossary terms */
+    glossaryViolations?: GlossaryViolation[];
+    /** Video length and Whisper cost shown when asking for Whisper (status "needs_whisper") */
+    whisperEstimate?: string;
+    /** Extracted terms waiting for review (status "needs_review") */
+    terms?: TermEntry[];
+    stats?: {
+        totalChunks: number;
+        successfulChunks: number;
+        failedChunks: number;
+    };
+}
+
+/** Persisted generation job */
+export interface GenerationJob {
+    id: string;
+    tabId: number;
+    videoId: string;
+    status: JobStatus;
+    progress: {
+        text: string;
+        step: number;
+        totalSteps: number;
+    };
+    result?: JobResult;
+    error?: string;
+    startedAt: number;
+    updatedAt: number;
+}
+
+/** Work of a job paused for term review, resumed once the terms are confirmed */
+export interface PendingReview {
+    transcript: TranscriptLine[];
+    usedWhisper: boolean;
+    warning?: string;
+    /** Terms offered for review */
+    terms: TermEntry[];
+}
+
+const STORAGE_PREFIX = "job:";
+const REVIEW_PREFIX = "review:";
+
+/**
+ * Builds the job ID for a tab and video
+ */
+export function getJobId(tabId: number, videoId: string): string {
+    return `${tabId}:${videoId}`;
+}
+
+/**
+ * Creates a new running job (replacing any previous job for the same tab and video)
+ */
+export function createJob(tabId: number, videoId: string): GenerationJob {
+    const now = Date.now();
+    return {
+        id: getJobId(tabId, videoId),
+        tabId,
+        videoId,
+        status: "running",
+        progress: { text: "Starting...", step: 1, totalSteps: 4 },
+        startedAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * Loads the job for a tab and video
+ */
+export async function getJob(tabId: number, videoId: string): Promise<GenerationJob | null> {
+    const key = STORAGE_PREFIX + getJobId(tabId, videoId);
+    const data = await chrome.storage.local.get(key);
+    return data[key] || null;
+}
+
+/**
+ * Persists a job and broadcasts the update to any open popup
+ */
+export async function saveJob(job: GenerationJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await chrome.storage.local.set({ [STORAGE_PREFIX + job.id]: job });
+
+    try {
+        const result = chrome.runtime.sendMessage({ action: "JOB_UPDATE", job });
+        // Handle Promise (Firefox) or undefined (popup closed)
+        if (result && typeof result.catch === "function") {
+            result.catch(() => {
+                // Popup may be closed, ignore
+            });
+        }
+    } catch {
+        // Ignore errors when popup is closed
+    }
+}
+
+/**
+ * Keeps the transcript of a job waiting for term review
+ */
+export async function savePendingReview(jobId: string, review: PendingReview): Promise<void> {
+    await chrome.storage.local.set({ [REVIEW_PREFIX + jobId]: review });
+}
+
+/**
+ * Loads and removes the pending review of a job
+ */
+export async function takePendingReview(jobId: string): Promise<PendingReview | null> {
+    const key = REVIEW_PREFIX + jobId;
+    const data = await chrome.storage.local.get(key);
+    if (!data[key]) return null;
+
+    await chrome.storage.local.remove(key);
+    return data[key] as PendingReview;
+}
+
+/**
+ * Deletes all jobs of a tab, with their pending reviews
+ */
+export async function removeJobsForTab(tabId: number): Promise<void> {
+    const jobs = await loadAllJobs();
+    const keys = jobs
+        .filter((job) => job.tabId === tabId)
+        .flatMap((job) => [STORAGE_PREFIX + job.id, REVIEW_PREFIX + job.id]);
+    if (keys.length > 0) {
+        await chrome.storage.local.remove(keys);
+    }
+}
+
+/**
+ * Cleans up jobs when the background worker starts
+ *
+ * A job still marked as running was interrupted when the previous worker
+ * stopped, and jobs of closed tabs are no longer reachable.
+ */
+export async function recoverJobs(): Promise<void> {
+    const jobs = await loadAllJobs();
+    const openTabs = new Set((await chrome.tabs.query({})).map((tab) => tab.id));
+
+    for (const job of jobs) {
+        if (!openTabs.has(job.tabId)) {
+            await chrome.storage.local.remove([STORAGE_PREFIX + job.id, REVIEW_PREFIX + job.id]);
+        } else if (job.status === "running") {
+            job.status = "failed";
+            job.error = "Generation was interrupted. Please try again.";
+            await saveJob(job);
+        }
+    }
+}
+
+/**
+ * Loads every persisted job
+ */
+async function loadAllJobs(): Promise<GenerationJob[]> {
+    const data = await chrome.storage.local.get(null);
+    return Object.keys(data)
+        .filter((key) => key.startsWith(STORAGE_PREFIX))
+        .map((key) => data[key] as GenerationJob);
+}
@@ -3,12 +3,61 @@
  *
  * Runs on YouTube video pages to:
  * - Extract video metadata
- * - Display custom subtitle overlay
- * - Sync subtitles with video playback
+ * - Display custom subtitle overlay, optionally with the original text
+ * - Sync subtitles with video playback, or hand them to the browser as a
+ *   native text track that also shows in fullscreen and Picture-in-Picture
+ * - Offer saved subtitles from the library
+ * - Load subtitle files dropped onto the player
+ * - Correct the subtitle timing per video (G / H keys, timing panel)
  *
  * @module content/youtube
  */
 
+import {
+    describeCaptionTracks,
+    fetchCaptionTrack,
+    getCaptionTrackId,
+    getCaptionTracks,
+    getVideoDuration,
+    getYouTubeVideoId,
+    parsePlayerResponse,
+    selectCaptionTrack,
+    type PlayerResponse,
+    type TranscriptLine
+} from '../../shared/ai-core/transcript.js';
+import {
+    findCueAt,
+    parseCueMarkup,
+    stripCueMarkup,
+    type SubtitleCue,
+    type SubtitleParseResult
+} from '../../shared/ai-core/subtitles.js';
+import { parseSubtitles, SUBTITLE_FILE_EXTENSIONS } from '../../shared/ai-core/formats.js';
+import { formatVTTCueText } from '../../shared/ai-core/vtt.js';
+import {
+    DEFAULT_SOURCE_COLOR,
+    pairSourceCues,
+    SOURCE_FONT_SCALE,
+    type DualLayout
+} from '../../shared/ai-core/bilingual.js';
+import {
+    adjustCues,
+    describeTiming,
+    NO_TIMING_ADJUSTMENT,
+    nudgeOffset,
+    OFFSET_STEP,
+    syncTiming,
+    type SyncPoint,
+    type TimingAdjustment
+} from '../../shared/ai-core/timing.js';
+import {
+    getTiming,
+    listEntries,
+    saveOpenedFile,
+    saveTiming,
+    type LibraryEntry
+} from '../utils/library.js';
+
 console.log('[BringYourSub] Content script active on YouTube');
 
 // =====================
@@ -19,28 +68,53 @@ interface VideoMetadata {
     channel: string;
 }
 
-interface SubtitleCue {
-    start: number;
-    end: number;
-    text: string;
-}
-
 interface SubtitleMessage {
     action: string;
+    trackId?: string;
     subtitles?: string;
+    /** SRT of the original text, shown with `subtitles` in dual mode */
+    sourceSubtitles?: string;
     fontSize?: string;
     position?: string;
+    dualSubtitles?: DualLayout | 'off';
+    sourceColor?: string;
+}
+
+/** Original text shown together with the translation */
+interface DualDisplay {
+    sourceSubtitles: string;
+    layout: DualLayout;
+    color?: string;
 }
 
+/** Styled overlay on the player, or the video element's own text track */
+type SubtitleRenderer = 'overlay' | 'native';
+
+/** Cues stay up to and including their end, so updates wake up just after */
+const SYNC_MARGIN_MS = 20;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
 // =====================
 // Subtitle Overlay
 // =====================
 class SubtitleOverlay {
     private container: HTMLDivElement | null = null;
     private textElement: HTMLDivElement | null = null;
+    private sourceContainer: HTMLDivElement | null = null;
+    private sourceElement: HTMLDivElement | null = null;
+    private dual: DualDisplay | null = null;
+    /** Cues as applied, and `cues` with the timing correction */
+    private baseCues: SubtitleCue[] = [];
+    private timing: TimingAdjustment = NO_TIMING_ADJUSTMENT;
     private cues: SubtitleCue[] = [];
+    private shownCue: SubtitleCue | null = null;
     private video: HTMLVideoElement | null = null;
-    private animationFrame: number | null = null;
+    /** Removes the listeners of the video element they were bound to */
+    private videoEvents: { video: HTMLVideoElement; controller: AbortController } | null = null;
+    private syncTimer: number | null = null;
+    private renderer: SubtitleRenderer = 'overlay';
+    private track: TextTrack | null = null;
     public isActive = false;
     private fontSize = 'medium';
     private position = 'bottom';
@@ -56,7 +130,10 @@ class SubtitleOverlay {
      * Initialize the overlay on the video player
      */
     init(): void {
-        this.video = document.querySelector('video');
+        const video = document.querySelector('video');
+        if (video !== this.video) this.track = null;
+
+        this.video = video;
         if (!this.video) {
             console.error('[BringYourSub] No video element found');
             return;
@@ -68,6 +145,9 @@ class SubtitleOverlay {
 
     /**
      * Create the subtitle overlay container
+     *
+     * The original text of dual subtitles has its own element: under the
+     * translation, or in a second container at the opposite edge.
      */
     private createOverlay(): void {
         // Remove existing overlay if any
@@ -76,23 +156,19 @@ class SubtitleOverlay {
         const videoContainer = document.querySelector('.html5-video-container');
         if (!videoContainer) return;
 
-        this.container = document.createElement('div');
-        this.container.id = 'bys-subtitle-overlay';
-        this.container.style.cssText = `
+        const containerStyle = `
             position: absolute;
             left: 0;
             right: 0;
             z-index: 60;
             display: flex;
-            justify-content: center;
+            flex-direction: column;
+            align-items: center;
+            gap: 6px;
             pointer-events: none;
             transition: opacity 0.2s ease;
         `;
-        this.updatePosition();
-
-        this.textElement = document.createElement('div');
-        this.textElement.id = 'bys-subtitle-text';
-        this.textElement.style.cssText = `
+        const textStyle = `
             background: rgba(0, 0, 0, 0.75);
             color: #ffffff;
             padding: 8px 16px;
@@ -101,110 +177,115 @@ class SubtitleOverlay {
             text-align: center;
             max-width: 80%;
             line-height: 1.4;
+            white-space: pre-line;
             text-shadow: 0 1px 2px rgba(0, 0, 0, 0.5);
             backdrop-filter: blur(4px);
             opacity: 0;
             transform: translateY(10px);
             transition: all 0.2s ease;
         `;
-        this.updateFontSize();
+
+        this.container = document.createElement('div');
+        this.container.id = 'bys-subtitle-overlay';
+        this.container.style.cssText = containerStyle;
+
+        this.textElement = document.createElement('div');
+        this.textElement.id = 'bys-subtitle-text';
+        this.textElement.style.cssText = textStyle;
+
+        this.sourceContainer = document.createElement('div');
+        this.sourceContainer.id = 'bys-source-overlay';
+        this.sourceContainer.style.cssText = containerStyle;
+
+        this.sourceElement = document.createElement('div');
+        this.sourceElement.id = 'bys-source-text';
+        this.sourceElement.style.cssText = textStyle;
 
         this.container.appendChild(this.textElement);
-        videoContainer.appendChild(this.container);
+        this.updatePosition();
+        this.updateFontSize();
+        this.updateDualLayout();
+
+        videoContainer.append(this.container, this.sourceContainer);
     }
 
     /**
      * Update subtitle position
+     *
+     * Split original text goes to the opposite edge.
      */
     private updatePosition(): void {
-        if (!this.container) return;
+        if (!this.container || !this.sourceContainer) return;
 
-        if (this.position === 'top') {
-            this.container.style.top = '40px';
-            this.container.style.bottom = 'auto';
-        } else {
-            this.container.style.bottom = '80px';
-            this.container.style.top = 'auto';
-        }
+        const [main, opposite] = this.position === 'top'
+            ? [this.container, this.sourceContainer]
+            : [this.sourceContainer, this.container];
+
+        main.style.top = '40px';
+        main.style.bottom = 'auto';
+        opposite.style.bottom = '80px';
+        opposite.style.top = 'auto';
     }
 
     /**
-     * Update font size
+     * Update font size; the original text is slightly smaller
      */
     private updateFontSize(): void {
-        if (!this.textElement) return;
-        this.textElement.style.fontSize = this.fontSizes[this.fontSize] || this.fontSizes.medium;
+        if (!this.textElement || !this.sourceElement) return;
+
+        const size = this.fontSizes[this.fontSize] || this.fontSizes.medium;
+        this.textElement.style.fontSize = size;
+        this.sourceElement.style.fontSize = `${Math.round(parseInt(size, 10) * SOURCE_FONT_SCALE)}px`;
     }
 
     /**
-     * Bind video events
+     * Place and color the original text for the dual subtitle layout
      */
-    private bindEvents(): void {
-        if (!this.video) return;
+    private updateDualLayout(): void {
+        if (!this.container || !this.sourceContainer || !this.sourceElement) return;
 
-        // Start sync loop when playing
-        this.video.addEventListener('play', () => this.startSync());
-        this.video.addEventListener('playing', () => this.startSync());
-
-        // Stop sync when paused/ended
-        this.video.addEventListener('pause', () => this.stopSync());
-        this.video.addEventListener('ended', () => this.stopSync());
-
-        // Handle seeking
-        this.video.addEventListener('seeked', () => this.updateSubtitle());
+        const parent = this.dual?.layout === 'split' ? this.sourceContainer : this.container;
+        parent.appendChild(this.sourceElement);
+        this.sourceElement.style.color = this.dual?.color || DEFAULT_SOURCE_COLOR;
     }
 
     /**
-     * Parse SRT format subtitles
+     * Bind video events
+     *
+     * YouTube keeps the same video element across navigations, so events
+     * are bound once per element; a new element replaces the old listeners.
      */
-    parseSRT(srtText: string): SubtitleCue[] {
-        const cues: SubtitleCue[] = [];
-
-        // Try to parse as SRT format
-        const srtPattern = /(\d+)\s*\n(\d{2}:\d{2}:\d{2}[,\.]\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2}[,\.]\d{3})\s*\n([\s\S]*?)(?=\n\n|\n*$)/g;
-        let match;
-
-        while ((match = srtPattern.exec(srtText)) !== null) {
-            const start = this.parseTimestamp(match[2]);
-            const end = this.parseTimestamp(match[3]);
-            const text = match[4].trim().replace(/\n/g, ' ');
+    private bindEvents(): void {
+        if (!this.video || this.videoEvents?.video === this.video) return;
 
-            cues.push({ start, end, text });
-        }
+        this.videoEvents?.controller.abort();
+        const controller = new AbortController();
+        const { signal } = controller;
+        this.videoEvents = { video: this.video, controller };
 
-        // If no SRT cues found, try simple line-by-line with generated timings
-        if (cues.length === 0) {
-            const lines = srtText.split('\n').filter(line => line.trim());
-            const duration = this.video?.duration || 300;
-            const timePerLine = duration / lines.length;
-
-            lines.forEach((line, index) => {
-                cues.push({
-                    start: index * timePerLine,
-                    end: (index + 1) * timePerLine,
-                    text: line.trim()
-                });
-            });
+        // Update on playback changes; in between, a timer waits for the next cue change
+        for (const event of ['play', 'playing', 'seeked', 'ratechange']) {
+            this.video.addEventListener(event, () => this.updateSubtitle(), { signal });
         }
 
-        return cues;
+        // Keep the current cue on screen while paused
+        this.video.addEventListener('pause', () => this.stopSync(), { signal });
+        this.video.addEventListener('ended', () => this.stopSync(), { signal });
     }
 
     /**
-     * Parse SRT timestamp to seconds
+     * Apply subtitles from SRT, WebVTT or ASS text
+     *
+     * Cues that cannot be read are skipped; returns the parse result so the
+     * caller can report them. Nothing is applied when no cue was read.
+     *
+     * @param dual - Original text to show with each cue (default: translation only)
      */
-    private parseTimestamp(timestamp: string): number {
-        const parts = timestamp.replace(',', '.').split(':');
-        const hours = parseInt(parts[0], 10);
-        const minutes = parseInt(parts[1], 10);
-        const seconds = parseFloat(parts[2]);
-        return hours * 3600 + minutes * 60 + seconds;
-    }
+    apply(subtitles: string, fontSize?: string, position?: string, dual?: DualDisplay): SubtitleParseResult {
+        const result = parseSubtitles(subtitles);
+        result.errors.forEach(error => console.warn(`[BringYourSub] Subtitles line ${error.line}: ${error.message}`));
+        if (result.cues.length === 0) return result;
 
-    /**
-     * Apply subtitles from text
-     */
-    apply(subtitles: string, fontSize?: string, position?: string): void {
         if (fontSize) {
             this.fontSize = fontSize;
             this.updateFontSize();
@@ -214,16 +295,23 @@ class SubtitleOverlay {
             this.updatePosition();
         }
 
-        this.cues = this.parseSRT(subtitles);
+        this.dual = dual ?? null;
+        this.updateDualLayout();
+
+        const cues = dual ? pairSourceCues(result.cues, parseSubtitles(dual.sourceSubtitles).cues) : result.cues;
+        this.baseCues = [...cues].sort((a, b) => a.start - b.start);
+        this.cues = adjustCues(this.baseCues, this.timing);
+        this.shownCue = null;
         this.isActive = true;
 
         // Hide YouTube's native captions
         this.hideNativeCaptions();
 
-        // Start syncing
-        this.startSync();
+        this.render();
+        this.loadTiming();
 
         console.log(`[BringYourSub] Applied ${this.cues.length} subtitle cues`);
+        return result;
     }
 
     /**
@@ -253,66 +341,221 @@ class SubtitleOverlay {
     }
 
     /**
-     * Start subtitle sync loop
+     * Applies the timing correction saved for the current video
+     */
+    private async loadTiming(): Promise<void> {
+        const videoId = getYouTubeVideoId();
+        if (videoId) this.setTiming(await getTiming(videoId), false);
+    }
+
+    getTiming(): TimingAdjustment {
+        return this.timing;
+    }
+
+    /**
+     * Shift and scale all cues, saving the correction for the current video
+     */
+    setTiming(timing: TimingAdjustment, save = true): void {
+        if (timing.offset === this.timing.offset && timing.scale === this.timing.scale) return;
+
+        this.timing = timing;
+        this.cues = adjustCues(this.baseCues, timing);
+        this.shownCue = null;
+        if (this.isActive) this.render();
+
+        const videoId = getYouTubeVideoId();
+        if (save && videoId) saveTiming(videoId, timing);
+    }
+
+    /**
+     * Returns the cue on screen, or else the next one, with its original times
+     */
+    pickSyncCue(): SubtitleCue | null {
+        if (!this.video) return null;
+
+        const time = this.video.currentTime;
+        const { cue } = findCueAt(this.cues, time);
+        const index = cue ? this.cues.indexOf(cue) : this.cues.findIndex(next => next.start > time);
+        return index >= 0 ? this.baseCues[index] : null;
+    }
+
+    getVideoTime(): number | null {
+        return this.video ? this.video.currentTime : null;
+    }
+
+    /**
+     * Switch between the overlay and the browser's caption rendering
+     *
+     * Native captions are drawn by the video element itself, so they stay
+     * visible in fullscreen, Picture-in-Picture and theater mode. They use
+     * the browser's caption size instead of the Font Size setting.
+     */
+    setRenderer(renderer: SubtitleRenderer): void {
+        if (renderer === this.renderer) return;
+        this.renderer = renderer;
+        this.render();
+    }
+
+    /**
+     * Show the cues with the current renderer, or hide both when inactive
      */
-    private startSync(): void {
-        if (!this.isActive || this.animationFrame !== null) return;
+    private render(): void {
+        const showOverlay = this.isActive && this.renderer === 'overlay';
+        for (const container of [this.container, this.sourceContainer]) {
+            if (container) container.style.display = showOverlay ? 'flex' : 'none';
+        }
 
-        const sync = (): void => {
-            this.updateSubtitle();
-            this.animationFrame = requestAnimationFrame(sync);
-        };
-        sync();
+        this.updateNativeTrack();
+        this.updateSubtitle();
     }
 
     /**
-     * Stop subtitle sync loop
+     * Stop waiting for the next cue change
      */
     private stopSync(): void {
-        if (this.animationFrame !== null) {
-            cancelAnimationFrame(this.animationFrame);
-            this.animationFrame = null;
+        if (this.syncTimer !== null) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = null;
         }
     }
 
     /**
-     * Update displayed subtitle based on current time
+     * Show the overlay cue at the current time, and set a timer for the
+     * moment it changes
      */
     private updateSubtitle(): void {
-        if (!this.video || !this.textElement || !this.isActive) return;
+        this.stopSync();
+        if (!this.video || !this.textElement || !this.isActive || this.renderer !== 'overlay') return;
 
         const currentTime = this.video.currentTime;
-        const currentCue = this.cues.find(
-            cue => currentTime >= cue.start && currentTime <= cue.end
-        );
+        const { cue, nextChange } = findCueAt(this.cues, currentTime);
+
+        if (cue && cue !== this.shownCue) this.renderCue(cue);
+        this.setVisible(this.textElement, !!cue);
+        this.setVisible(this.sourceElement, !!(this.dual && cue?.source));
+
+        if (nextChange !== null && !this.video.paused) {
+            const delay = (nextChange - currentTime) / (this.video.playbackRate || 1) * 1000 + SYNC_MARGIN_MS;
+            this.syncTimer = window.setTimeout(() => this.updateSubtitle(), Math.max(0, delay));
+        }
+    }
+
+    /**
+     * Load the cues into the video's text track, or turn it off
+     *
+     * Tracks cannot be removed from a video, so one track is reused.
+     */
+    private updateNativeTrack(): void {
+        if (!this.video) return;
+
+        if (this.renderer !== 'native' || !this.isActive) {
+            if (this.track) this.track.mode = 'disabled';
+            return;
+        }
+
+        this.track ??= this.video.addTextTrack('subtitles', 'BringYourSub');
+        for (const cue of Array.from(this.track.cues ?? [])) {
+            this.track.removeCue(cue);
+        }
+        for (const cue of this.cues) {
+            this.toVTTCues(cue).forEach(vttCue => this.track!.addCue(vttCue));
+        }
+
+        this.updateCueStyle();
+        this.track.mode = 'showing';
+    }
 
-        if (currentCue) {
-            this.textElement.textContent = currentCue.text;
-            this.textElement.style.opacity = '1';
-            this.textElement.style.transform = 'translateY(0)';
+    /**
+     * Builds the native cues of a cue: the translation, with the original
+     * text below it or as a second cue at the opposite edge
+     */
+    private toVTTCues(cue: SubtitleCue): VTTCue[] {
+        const text = formatVTTCueText(cue.text);
+        const source = this.dual && cue.source ? `<c.bys-source>${formatVTTCueText(cue.source)}</c>` : '';
+        const split = this.dual?.layout === 'split';
+
+        const main = new VTTCue(cue.start, cue.end, source && !split ? `${text}\n${source}` : text);
+        this.placeVTTCue(main, this.position);
+        if (!source || !split) return [main];
+
+        const sourceCue = new VTTCue(cue.start, cue.end, source);
+        this.placeVTTCue(sourceCue, this.position === 'top' ? 'bottom' : 'top');
+        return [main, sourceCue];
+    }
+
+    // Same placement as WebVTT downloads
+    private placeVTTCue(cue: VTTCue, position: string): void {
+        if (position === 'top') {
+            cue.snapToLines = false;
+            cue.line = 5;
         } else {
-            this.textElement.style.opacity = '0';
-            this.textElement.style.transform = 'translateY(10px)';
+            cue.line = -2;
         }
     }
 
+    /**
+     * Colors the original text of native cues
+     */
+    private updateCueStyle(): void {
+        let style = document.getElementById('bys-cue-style');
+        if (!style) {
+            style = document.createElement('style');
+            style.id = 'bys-cue-style';
+            document.head.appendChild(style);
+        }
+
+        const color = this.dual?.color && HEX_COLOR.test(this.dual.color) ? this.dual.color : DEFAULT_SOURCE_COLOR;
+        style.textContent = `video::cue(.bys-source) { color: ${color}; }`;
+    }
+
+    private setVisible(element: HTMLDivElement | null, visible: boolean): void {
+        if (!element) return;
+        element.style.opacity = visible ? '1' : '0';
+        element.style.transform = visible ? 'translateY(0)' : 'translateY(10px)';
+    }
+
+    /**
+     * Show a cue's text and original text
+     */
+    private renderCue(cue: SubtitleCue): void {
+        if (!this.textElement || !this.sourceElement) return;
+
+        this.textElement.replaceChildren(...this.renderMarkup(cue.text));
+        this.sourceElement.replaceChildren(...this.renderMarkup(cue.source ?? ''));
+        this.shownCue = cue;
+    }
+
+    /**
+     * Builds nodes for text with bold, italic, underline and color markup
+     */
+    private renderMarkup(text: string): Node[] {
+        return parseCueMarkup(text).map(span => {
+            if (!span.bold && !span.italic && !span.underline && !span.color) {
+                return document.createTextNode(span.text);
+            }
+            const element = document.createElement('span');
+            element.textContent = span.text;
+            if (span.bold) element.style.fontWeight = 'bold';
+            if (span.italic) element.style.fontStyle = 'italic';
+            if (span.underline) element.style.textDecoration = 'underline';
+            if (span.color) element.style.color = span.color;
+            return element;
+        });
+    }
+
     /**
      * Toggle subtitle visibility
      */
     toggle(): void {
         this.isActive = !this.isActive;
 
-        if (this.container) {
-            this.container.style.display = this.isActive ? 'flex' : 'none';
-        }
-
         if (this.isActive) {
             this.hideNativeCaptions();
-            this.startSync();
         } else {
             this.showNativeCaptions();
-            this.stopSync();
         }
+
+        this.render();
     }
 
     /**
@@ -328,12 +571,17 @@ class SubtitleOverlay {
     destroy(): void {
         this.stopSync();
         this.isActive = false;
+        this.updateNativeTrack();
 
-        const existing = document.getElementById('bys-subtitle-overlay');
-        if (existing) existing.remove();
+        document.getElementById('bys-subtitle-overlay')?.remove();
+        document.getElementById('bys-source-overlay')?.remove();
 
         this.showNativeCaptions();
+        this.baseCues = [];
         this.cues = [];
+        this.shownCue = null;
+        this.dual = null;
+        this.timing = NO_TIMING_ADJUSTMENT;
     }
 }
 
@@ -397,12 +645,15 @@ function injectPlayerButton(): void {
         }
     });
 
+    const timingButton = createTimingButton();
+
     // Insert before the settings button
     const settingsBtn = rightControls.querySelector('.ytp-settings-button');
     if (settingsBtn) {
         rightControls.insertBefore(button, settingsBtn);
+        rightControls.insertBefore(timingButton, settingsBtn);
     } else {
-        rightControls.appendChild(button);
+        rightControls.append(button, timingButton);
     }
 
     console.log('[BringYourSub] Player button injected');
@@ -452,12 +703,360 @@ function showPlayerToast(message: string): void {
     setTimeout(() => toast.remove(), 2000);
 }
 
+// =====================
+// Saved Subtitles
+// =====================
+let offeredVideoId: string | null = null;
+
+/**
+ * Offers to load subtitles saved in the library for the current video
+ *
+ * Prefers the entry in the user's target language, otherwise the most recent one.
+ */
+async function offerSavedSubtitles(): Promise<void> {
+    const videoId = getYouTubeVideoId();
+    if (!videoId || videoId === offeredVideoId || subtitleOverlay.hasCues()) return;
+    offeredVideoId = videoId;
+
+    const entries = await listEntries(videoId);
+    if (entries.length === 0) return;
+
+    const settings = await chrome.storage.local.get(['targetLanguage', 'fontSize', 'position', 'dualSubtitles', 'sourceColor']);
+    const entry = entries.find(e => e.language === settings.targetLanguage) || entries[0];
+
+    showSavedSubtitlesPrompt(entry, () => {
+        subtitleOverlay.apply(
+            entry.subtitles,
+            settings.fontSize,
+            settings.position,
+            getDualDisplay(entry.sourceSubtitles, settings.dualSubtitles, settings.sourceColor)
+        );
+        showPlayerToast(`${entry.language} subtitles loaded`);
+    });
+}
+
+/**
+ * Returns the original text to show, or undefined when dual subtitles are
+ * off or the track has no original text
+ */
+function getDualDisplay(sourceSubtitles?: string, layout?: DualLayout | 'off', color?: string): DualDisplay | undefined {
+    if (!sourceSubtitles || (layout !== 'stacked' && layout !== 'split')) return undefined;
+    return { sourceSubtitles, layout, color };
+}
+
+// Show a load/dismiss prompt on the video player
+function showSavedSubtitlesPrompt(entry: LibraryEntry, onLoad: () => void): void {
+    document.getElementById('bys-saved-prompt')?.remove();
+
+    const player = document.querySelector('.html5-video-player');
+    if (!player) return;
+
+    const prompt = document.createElement('div');
+    prompt.id = 'bys-saved-prompt';
+    prompt.style.cssText = `
+        position: absolute;
+        top: 12px;
+        right: 12px;
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        background: rgba(0, 0, 0, 0.8);
+        color: white;
+        padding: 8px 12px;
+        border-radius: 4px;
+        font-size: 13px;
+        z-index: 100;
+    `;
+
+    const text = document.createElement('span');
+    text.textContent = `Saved ${entry.language} subtitles available`;
+
+    const buttonStyle = `
+        background: transparent;
+        border: 1px solid rgba(255, 255, 255, 0.5);
+        color: white;
+        padding: 4px 10px;
+        border-radius: 3px;
+        font-size: 12px;
+        cursor: pointer;
+    `;
+
+    const loadButton = document.createElement('button');
+    loadButton.textContent = 'Load';
+    loadButton.style.cssText = buttonStyle;
+    loadButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        prompt.remove();
+        onLoad();
+    });
+
+    const dismissButton = document.createElement('button');
+    dismissButton.textContent = '✕';
+    dismissButton.title = 'Dismiss';
+    dismissButton.style.cssText = buttonStyle;
+    dismissButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        prompt.remove();
+    });
+
+    prompt.append(text, loadButton, dismissButton);
+    player.appendChild(prompt);
+    setTimeout(() => prompt.remove(), 15000);
+}
+
+// =====================
+// Subtitle Files (drag and drop)
+// =====================
+function getVideoMetadata(): VideoMetadata {
+    return {
+        title: document.querySelector('h1.ytd-watch-metadata')?.textContent?.trim() || 'Unknown',
+        channel: document.querySelector('ytd-channel-name #text')?.textContent?.trim() || 'Unknown'
+    };
+}
+
+// Checks whether files are being dragged over the player
+function isFileOverPlayer(event: DragEvent): boolean {
+    const target = event.target as Element | null;
+    return !!event.dataTransfer?.types.includes('Files') && !!target?.closest?.('.html5-video-player');
+}
+
+// File names are only readable on drop, so the extension is checked there
+function isSubtitleFile(file: File): boolean {
+    return SUBTITLE_FILE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+}
+
+/**
+ * Applies a subtitle file dropped onto the player, and saves it to the
+ * library when "Save opened files to History" is on
+ */
+async function loadSubtitleFile(file: File): Promise<void> {
+    const settings = await chrome.storage.local.get(['fontSize', 'position', 'targetLanguage', 'saveOpenedFiles']);
+    if (!document.getElementById('bys-subtitle-overlay')) subtitleOverlay.init();
+
+    const { cues, errors } = subtitleOverlay.apply(await file.text(), settings.fontSize, settings.position);
+    if (cues.length === 0) {
+        showPlayerToast(`Could not read ${file.name}: ${errors[0]?.message || 'no cues found'}`);
+        return;
+    }
+
+    const skipped = errors.length > 0 ? `, ${errors.length} skipped` : '';
+    showPlayerToast(`${file.name}: ${cues.length} cues loaded${skipped}`);
+
+    const videoId = getYouTubeVideoId();
+    if (settings.saveOpenedFiles && videoId) {
+        await saveOpenedFile(videoId, getVideoMetadata().title, settings.targetLanguage || 'Unknown', file.name, cues);
+    }
+}
+
+document.addEventListener('dragover', (event) => {
+    if (!isFileOverPlayer(event)) return;
+    event.preventDefault();
+    event.dataTransfer!.dropEffect = 'copy';
+});
+
+document.addEventListener('drop', (event) => {
+    const file = isFileOverPlayer(event) ? event.dataTransfer!.files[0] : undefined;
+    if (!file) return;
+    event.preventDefault();
+    if (!isSubtitleFile(file)) {
+        showPlayerToast(`Drop a subtitle file (${SUBTITLE_FILE_EXTENSIONS.join(', ')})`);
+        return;
+    }
+    event.stopPropagation();
+    loadSubtitleFile(file);
+});
+
+// =====================
+// Timing Correction
+// =====================
+function createTimingButton(): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.id = 'bys-timing-btn';
+    button.className = 'ytp-button';
+    button.title = 'BringYourSub - Subtitle timing (G earlier, H later)';
+    button.innerHTML = `
+        <svg height="100%" viewBox="0 0 36 36" width="100%">
+            <path d="M15 7h6v2h-6V7zm2 12h2v-6h-2v6zm8.03-6.61l1.42-1.42c-.43-.51-.9-.99-1.41-1.41l-1.42 1.42A8.96 8.96 0 0 0 18 10c-4.97 0-9 4.03-9 9s4.02 9 9 9 9-4.03 9-9c0-2.12-.74-4.07-1.97-5.61zM18 26c-3.87 0-7-3.13-7-7s3.13-7 7-7 7 3.13 7 7-3.13 7-7 7z"
+                  fill="#fff" fill-opacity="0.85"/>
+        </svg>
+    `;
+    button.style.cssText = `
+        position: relative;
+        cursor: pointer;
+        opacity: 0.9;
+    `;
+
+    button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        toggleTimingPanel();
+    });
+
+    return button;
+}
+
+/**
+ * Moves the subtitles by `seconds` and shows the new correction
+ */
+function nudgeTiming(seconds: number): void {
+    const timing = nudgeOffset(subtitleOverlay.getTiming(), seconds);
+    subtitleOverlay.setTiming(timing);
+
+    const value = document.getElementById('bys-timing-value');
+    if (value) {
+        value.textContent = describeTiming(timing);
+    } else {
+        showPlayerToast(`Subtitle timing ${describeTiming(timing)}`);
+    }
+}
+
+/**
+ * Opens or closes the timing panel: offset nudges and two-point sync
+ *
+ * For a sync point, mark the cue on screen (or the next one), then press
+ * "Spoken now" when its line is heard. One point sets the offset; a second
+ * point far from the first also corrects the speed.
+ */
+function toggleTimingPanel(): void {
+    const existing = document.getElementById('bys-timing-panel');
+    if (existing) {
+        existing.remove();
+        return;
+    }
+
+    const player = document.querySelector('.html5-video-player');
+    if (!player) return;
+    if (!subtitleOverlay.hasCues()) {
+        showPlayerToast('Apply subtitles to adjust their timing');
+        return;
+    }
+
+    let syncPoints: SyncPoint[] = [];
+    let markedCue: SubtitleCue | null = null;
+
+    const panel = document.createElement('div');
+    panel.id = 'bys-timing-panel';
+    panel.style.cssText = `
+        position: absolute;
+        right: 12px;
+        bottom: 60px;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        max-width: 320px;
+        background: rgba(0, 0, 0, 0.8);
+        color: white;
+        padding: 10px 12px;
+        border-radius: 4px;
+        font-size: 13px;
+        z-index: 100;
+    `;
+    // Keep clicks from pausing the video
+    panel.addEventListener('click', (e) => e.stopPropagation());
+
+    const rowStyle = 'display: flex; align-items: center; gap: 8px;';
+    const buttonStyle = `
+        background: transparent;
+        border: 1px solid rgba(255, 255, 255, 0.5);
+        color: white;
+        padding: 4px 10px;
+        border-radius: 3px;
+        font-size: 12px;
+        cursor: pointer;
+    `;
+
+    const createButton = (label: string, title: string, onClick: () => void): HTMLButtonElement => {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.title = title;
+        button.style.cssText = buttonStyle;
+        button.addEventListener('click', onClick);
+        return button;
+    };
+
+    const value = document.createElement('span');
+    value.id = 'bys-timing-value';
+    value.textContent = describeTiming(subtitleOverlay.getTiming());
+    value.style.cssText = 'min-width: 64px; text-align: center;';
+
+    const status = document.createElement('span');
+    status.textContent = 'Sync: mark a cue, then press "Spoken now" when you hear it.';
+    status.style.cssText = 'font-size: 12px; opacity: 0.85;';
+
+    const offsetRow = document.createElement('div');
+    offsetRow.style.cssText = rowStyle;
+    offsetRow.append(
+        createButton('-0.1 s', 'Show subtitles earlier (G)', () => nudgeTiming(-OFFSET_STEP)),
+        value,
+        createButton('+0.1 s', 'Show subtitles later (H)', () => nudgeTiming(OFFSET_STEP)),
+        createButton('Reset', 'Use the timing as generated', () => {
+            syncPoints = [];
+            subtitleOverlay.setTiming(NO_TIMING_ADJUSTMENT);
+            value.textContent = describeTiming(NO_TIMING_ADJUSTMENT);
+        }),
+        createButton('✕', 'Close', () => panel.remove())
+    );
+
+    const syncRow = document.createElement('div');
+    syncRow.style.cssText = rowStyle;
+    syncRow.append(
+        createButton('Mark cue', 'Pick the subtitle on screen, or the next one', () => {
+            markedCue = subtitleOverlay.pickSyncCue();
+            const text = markedCue ? stripCueMarkup(markedCue.text).replace(/\s+/g, ' ') : '';
+            status.textContent = markedCue
+                ? `Marked "${text.length > 40 ? text.slice(0, 40) + '…' : text}". Press "Spoken now" when you hear it.`
+                : 'No subtitle to mark from here.';
+        }),
+        createButton('Spoken now', 'The marked line is spoken at this moment', () => {
+            const videoTime = subtitleOverlay.getVideoTime();
+            if (!markedCue || videoTime === null) {
+                status.textContent = 'Mark a cue first.';
+                return;
+            }
+
+            const points = [...syncPoints, { cueTime: markedCue.start, videoTime }];
+            const timing = syncTiming(points, subtitleOverlay.getTiming());
+            markedCue = null;
+            if (typeof timing === 'string') {
+                status.textContent = `${timing}.`;
+                return;
+            }
+
+            subtitleOverlay.setTiming(timing);
+            value.textContent = describeTiming(timing);
+            syncPoints = points.length < 2 ? points : [];
+            status.textContent = points.length < 2
+                ? 'Offset set. Mark a second cue far from the first to correct the speed too.'
+                : 'Offset and speed set from two points.';
+        })
+    );
+
+    panel.append(offsetRow, syncRow, status);
+    player.appendChild(panel);
+}
+
+// G / H move the subtitles earlier / later, as in common desktop players
+document.addEventListener('keydown', (event) => {
+    if (!subtitleOverlay.isActive || event.ctrlKey || event.altKey || event.metaKey || event.shiftKey) return;
+
+    const target = event.target as HTMLElement | null;
+    if (target?.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target?.tagName ?? '')) return;
+
+    const key = event.key.toLowerCase();
+    if (key !== 'g' && key !== 'h') return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    nudgeTiming(key === 'g' ? -OFFSET_STEP : OFFSET_STEP);
+});
+
 // Initialize when video container is available
 function initOverlay(): void {
     const videoContainer = document.querySelector('.html5-video-container');
     if (videoContainer) {
+        document.getElementById('bys-timing-panel')?.remove();
         subtitleOverlay.init();
         injectPlayerButton();
+        offerSavedSubtitles();
     } else {
         // Retry after a short delay (YouTube loads dynamically)
         setTimeout(initOverlay, 1000);
@@ -467,60 +1066,81 @@ function initOverlay(): void {
 // Start initialization
 initOverlay();
 
+// Follow the renderer chosen in Settings, also while subtitles are shown
+chrome.storage.local.get('renderer').then((data) => {
+    if (data.renderer) subtitleOverlay.setRenderer(data.renderer);
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes.renderer?.newValue) {
+        subtitleOverlay.setRenderer(changes.renderer.newValue);
+    }
+});
+
 // =====================
 // Transcript Extraction (runs on YouTube page)
 // =====================
-async function extractTranscript(): Promise<string | null> {
-    try {
-        // Try to get ytInitialPlayerResponse from page
-        const scripts = document.querySelectorAll('script');
-        let playerResponse: any = null;
-
-        for (const script of scripts) {
-            const content = script.textContent || '';
-            const match = content.match(/ytInitialPlayerResponse\s*=\s*({.+?});/);
-            if (match) {
-                try {
-                    playerResponse = JSON.parse(match[1]);
-                    break;
-                } catch { continue; }
-            }
-        }
+/**
+ * Returns the player response of the current video
+ *
+ * The page scripts keep describing the video that was loaded first, so
+ * after SPA navigation the watch page of the current video is fetched.
+ */
+async function getPlayerResponse(): Promise<PlayerResponse | null> {
+    const videoId = getYouTubeVideoId();
+    const isCurrent = (response: PlayerResponse | null): response is PlayerResponse =>
+        !!response && (!videoId || response.videoDetails?.videoId === videoId);
+
+    // Try to get ytInitialPlayerResponse from page
+    for (const script of document.querySelectorAll('script')) {
+        const response = parsePlayerResponse(script.textContent || '');
+        if (isCurrent(response)) return response;
+    }
 
-        if (!playerResponse) {
-            // Try window object (may work in some cases)
-            playerResponse = (window as any).ytInitialPlayerResponse;
-        }
+    // Try window object (may work in some cases)
+    const pageResponse = (window as { ytInitialPlayerResponse?: PlayerResponse }).ytInitialPlayerResponse ?? null;
+    if (isCurrent(pageResponse)) return pageResponse;
+    if (!videoId) return null;
 
+    try {
+        const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
+        const fetched = parsePlayerResponse(await response.text());
+        return isCurrent(fetched) ? fetched : null;
+    } catch (error) {
+        console.log('[BringYourSub] Player response fetch failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Extracts the transcript of the current video, with the video length for
+ * the Whisper cost estimate when there are no captions
+ */
+async function extractTranscript(trackId?: string): Promise<{ transcript: TranscriptLine[] | null; duration?: number }> {
+    let duration: number | undefined;
+    try {
+        const playerResponse = await getPlayerResponse();
         if (!playerResponse) {
             console.log('[BringYourSub] No player response found');
-            return null;
+            return { transcript: null };
         }
+        duration = getVideoDuration(playerResponse);
 
-        const captions = playerResponse.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-        if (!captions || captions.length === 0) {
+        // Use the chosen track, or prefer manual captions in the spoken language
+        const track = selectCaptionTrack(getCaptionTracks(playerResponse), trackId);
+        if (!track) {
             console.log('[BringYourSub] No captions available');
-            return null;
+            return { transcript: null, duration };
         }
 
-        // Prefer English or first track
-        const track = captions.find((t: any) => t.languageCode === 'en') || captions[0];
-        const transcriptResponse = await fetch(track.baseUrl + '&fmt=json3');
-        const transcriptData = await transcriptResponse.json();
-
-        // Extract text
-        const text = transcriptData.events
-            ?.filter((e: any) => e.segs)
-            .map((e: any) => e.segs.map((s: any) => s.utf8).join(''))
-            .join(' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-
-        console.log('[BringYourSub] Transcript extracted, length:', text?.length || 0);
-        return text || null;
+        // Extract timed lines
+        const lines = await fetchCaptionTrack(track);
+
+        console.log('[BringYourSub] Transcript extracted, lines:', lines.length, 'track:', getCaptionTrackId(track));
+        return { transcript: lines.length > 0 ? lines : null, duration };
     } catch (error) {
         console.error('[BringYourSub] Transcript extraction error:', error);
-        return null;
+        return { transcript: null, duration };
     }
 }
 
@@ -534,16 +1154,24 @@ chrome.runtime.onMessage.addListener((
 ): boolean | void => {
 
     if (message.action === 'GET_METADATA') {
-        const title = document.querySelector('h1.ytd-watch-metadata')?.textContent?.trim() || 'Unknown';
-        const channel = document.querySelector('ytd-channel-name #text')?.textContent?.trim() || 'Unknown';
-        sendResponse({ title, channel });
+        sendResponse(getVideoMetadata());
+        return true;
+    }
+
+    if (message.action === 'GET_CAPTION_TRACKS') {
+        getPlayerResponse().then(playerResponse => {
+            const tracks = getCaptionTracks(playerResponse);
+            const defaultTrack = selectCaptionTrack(tracks);
+            sendResponse({
+                tracks: describeCaptionTracks(tracks),
+                defaultTrackId: defaultTrack ? getCaptionTrackId(defaultTrack) : null
+            });
+        });
         return true;
     }
 
     if (message.action === 'GET_TRANSCRIPT') {
-        extractTranscript().then(transcript => {
-            sendResponse({ transcript });
-        }).catch(() => {
+        extractTranscript(message.trackId).then(sendResponse).catch(() => {
             sendResponse({ transcript: null });
         });
         return true; // Keep channel open for async
@@ -551,8 +1179,13 @@ chrome.runtime.onMessage.addListener((
 
     if (message.action === 'APPLY_SUBTITLES') {
         if (message.subtitles) {
-            subtitleOverlay.apply(message.subtitles, message.fontSize, message.position);
-            sendResponse({ success: true });
+            const { cues, errors } = subtitleOverlay.apply(
+                message.subtitles,
+                message.fontSize,
+                message.position,
+                getDualDisplay(message.sourceSubtitles, message.dualSubtitles, message.sourceColor)
+            );
+            sendResponse({ success: cues.length > 0, cueCount: cues.length, errors });
         } else {
             sendResponse({ success: false });
         }
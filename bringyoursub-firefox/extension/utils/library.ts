@@ -0,0 +1,139 @@
+/**
+ * BringYourSub - Subtitle Library
+ *
+ * Generated subtitles are kept in chrome.storage.local, one entry per
+ * video, target language and model, so reopening a video never has to pay
+ * for the same translation twice. Subtitle files opened for a video can be
+ * kept the same way, converted to SRT. A timing correction is kept per
+ * video next to its tracks; tracks themselves stay as generated. Used by
+ * the background worker (saving), the content script (offering saved
+ * tracks, timing) and the popup History tab.
+ *
+ * @module utils/library
+ */
+
+import type { SubtitleCue } from "../../shared/ai-core/subtitles.js";
+import { formatSRT } from "../../shared/ai-core/srt.js";
+import {
+    isTimingAdjusted,
+    NO_TIMING_ADJUSTMENT,
+    type TimingAdjustment
+} from "../../shared/ai-core/timing.js";
+
+/** Saved subtitle track */
+export interface LibraryEntry {
+    id: string;
+    videoId: string;
+    /** Video title at generation time */
+    title: string;
+    language: string;
+    model: string;
+    /** SRT content */
+    subtitles: string;
+    /** SRT of the source text with the same timings, for dual subtitles */
+    sourceSubtitles?: string;
+    usedWhisper?: boolean;
+    /** Name of the file the subtitles were opened from (model is `FILE_MODEL`) */
+    fileName?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const STORAGE_PREFIX = "library:";
+const TIMING_PREFIX = "timing:";
+
+/** Model recorded for subtitles opened from a file */
+export const FILE_MODEL = "file";
+
+/**
+ * Builds the entry ID for a video, language and model
+ */
+export function getEntryId(videoId: string, language: string, model: string): string {
+    return `${videoId}:${language}:${model}`;
+}
+
+/**
+ * Saves subtitles, replacing any entry for the same video, language and model
+ */
+export async function saveEntry(
+    entry: Omit<LibraryEntry, "id" | "createdAt" | "updatedAt">
+): Promise<LibraryEntry> {
+    const id = getEntryId(entry.videoId, entry.language, entry.model);
+    const existing = await getEntry(entry.videoId, entry.language, entry.model);
+    const now = Date.now();
+
+    const saved: LibraryEntry = {
+        ...entry,
+        id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+    };
+    await chrome.storage.local.set({ [STORAGE_PREFIX + id]: saved });
+    return saved;
+}
+
+/**
+ * Saves the cues of an opened subtitle file as SRT
+ *
+ * One file is kept per video and language; opening another replaces it.
+ */
+export async function saveOpenedFile(
+    videoId: string,
+    title: string,
+    language: string,
+    fileName: string,
+    cues: SubtitleCue[]
+): Promise<LibraryEntry> {
+    return saveEntry({ videoId, title, language, model: FILE_MODEL, fileName, subtitles: formatSRT(cues) });
+}
+
+/**
+ * Loads the entry for a video, language and model
+ */
+export async function getEntry(videoId: string, language: string, model: string): Promise<LibraryEntry | null> {
+    const key = STORAGE_PREFIX + getEntryId(videoId, language, model);
+    const data = await chrome.storage.local.get(key);
+    return data[key] || null;
+}
+
+/**
+ * Lists saved entries, most recently updated first
+ *
+ * @param videoId - Only return entries of this video
+ */
+export async function listEntries(videoId?: string): Promise<LibraryEntry[]> {
+    const data = await chrome.storage.local.get(null);
+    return Object.keys(data)
+        .filter((key) => key.startsWith(STORAGE_PREFIX))
+        .map((key) => data[key] as LibraryEntry)
+        .filter((entry) => !videoId || entry.videoId === videoId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Deletes an entry
+ */
+export async function deleteEntry(id: string): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_PREFIX + id);
+}
+
+/**
+ * Loads the timing correction of a video
+ */
+export async function getTiming(videoId: string): Promise<TimingAdjustment> {
+    const key = TIMING_PREFIX + videoId;
+    const data = await chrome.storage.local.get(key);
+    return data[key] || NO_TIMING_ADJUSTMENT;
+}
+
+/**
+ * Saves the timing correction of a video; removes it when nothing is corrected
+ */
+export async function saveTiming(videoId: string, timing: TimingAdjustment): Promise<void> {
+    const key = TIMING_PREFIX + videoId;
+    if (isTimingAdjusted(timing)) {
+        await chrome.storage.local.set({ [key]: timing });
+    } else {
+        await chrome.storage.local.remove(key);
+    }
+}
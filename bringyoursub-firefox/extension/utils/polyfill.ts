@@ -6,6 +6,8 @@
  * This polyfill ensures both work with the 'chrome' namespace.
  */
 
+declare const browser: typeof chrome | undefined;
+
 // Detect environment
 const isFirefox = typeof browser !== 'undefined' && typeof browser.runtime !== 'undefined';
 
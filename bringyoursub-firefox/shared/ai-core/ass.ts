@@ -0,0 +1,298 @@
+/**
+ * ASS/SSA Export and Import
+ *
+ * Writes cues as Advanced SubStation Alpha for players and editors that
+ * support styled subtitles. Styles are built from a preset and the overlay
+ * settings (font size, position), and a file can carry several named
+ * styles; cues pick theirs with `SubtitleCue.style`.
+ *
+ * ASS and SSA files are read back into cues with their style names; only
+ * italic, bold and underline overrides are kept.
+ *
+ * @module ai-core/ass
+ */
+
+import {
+    cleanCueMarkup,
+    stripCueMarkup,
+    type SubtitleCue,
+    type SubtitleParseError,
+    type SubtitleParseResult
+} from "./subtitles.js";
+
+/** Look of the subtitles */
+export type ASSPreset = "overlay" | "outline" | "yellow";
+
+/** One entry of the `[V4+ Styles]` section */
+export interface ASSStyle {
+    name: string;
+    fontName: string;
+    /** Font size in script pixels (1080 lines high) */
+    fontSize: number;
+    /** Colors as "#RRGGBB" or "#RRGGBBAA" */
+    primaryColor: string;
+    outlineColor: string;
+    backColor: string;
+    bold: boolean;
+    italic: boolean;
+    /** 1 = outline and shadow, 3 = opaque box behind the text */
+    borderStyle: 1 | 3;
+    outline: number;
+    shadow: number;
+    /** Numpad position: 2 = bottom centre, 8 = top centre */
+    alignment: number;
+    /** Distance from the top or bottom edge in script pixels */
+    marginV: number;
+}
+
+/** Options for `generateASS` */
+export interface ASSOptions {
+    title?: string;
+    /** Styles of the file; cues without a known style use the first (default: overlay preset) */
+    styles?: ASSStyle[];
+    /** Comments written into `[Script Info]` */
+    notes?: string[];
+}
+
+/** Colors and borders of each preset */
+export const ASS_STYLE_PRESETS: Record<ASSPreset, Pick<ASSStyle, "primaryColor" | "outlineColor" | "backColor" | "borderStyle" | "outline" | "shadow">> = {
+    // White text on the translucent box of the in-player overlay
+    overlay: { primaryColor: "#FFFFFF", outlineColor: "#000000BF", backColor: "#000000BF", borderStyle: 3, outline: 8, shadow: 0 },
+    outline: { primaryColor: "#FFFFFF", outlineColor: "#000000", backColor: "#00000080", borderStyle: 1, outline: 3, shadow: 1 },
+    yellow: { primaryColor: "#FFD500", outlineColor: "#000000", backColor: "#00000080", borderStyle: 1, outline: 3, shadow: 1 }
+};
+
+/** Script resolution; overlay sizes are given for a 720-pixel-high player */
+const PLAY_RES_X = 1920;
+const PLAY_RES_Y = 1080;
+const OVERLAY_SCALE = PLAY_RES_Y / 720;
+
+/** Overlay font sizes in CSS pixels */
+const OVERLAY_FONT_SIZES: Record<string, number> = {
+    small: 14,
+    medium: 18,
+    large: 24,
+    xlarge: 32
+};
+
+/** Overlay distance from the edge in CSS pixels */
+const OVERLAY_MARGINS: Record<string, number> = {
+    top: 40,
+    bottom: 80
+};
+
+const STYLE_FIELDS = "Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding";
+const EVENT_FIELDS = "Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text";
+
+/**
+ * Builds a style from a preset and the overlay settings
+ *
+ * @param fontSize - Overlay font size ("small", "medium", "large", "xlarge")
+ * @param position - Overlay position ("top" or "bottom")
+ */
+export function createASSStyle(
+    name: string,
+    preset: ASSPreset = "overlay",
+    fontSize: string = "medium",
+    position: string = "bottom"
+): ASSStyle {
+    const top = position === "top";
+
+    return {
+        name,
+        fontName: "Roboto",
+        fontSize: Math.round((OVERLAY_FONT_SIZES[fontSize] ?? OVERLAY_FONT_SIZES.medium) * OVERLAY_SCALE),
+        bold: false,
+        italic: false,
+        ...(ASS_STYLE_PRESETS[preset] ?? ASS_STYLE_PRESETS.overlay),
+        alignment: top ? 8 : 2,
+        marginV: Math.round(OVERLAY_MARGINS[top ? "top" : "bottom"] * OVERLAY_SCALE)
+    };
+}
+
+/**
+ * Serializes cues as an ASS script
+ */
+export function generateASS(cues: SubtitleCue[], options: ASSOptions = {}): string {
+    const styles = options.styles && options.styles.length > 0 ? options.styles : [createASSStyle("Default")];
+    const styleNames = new Set(styles.map(style => style.name));
+
+    const scriptInfo = [
+        "[Script Info]",
+        ...(options.notes || []).map(note => `; ${note.replace(/\n/g, " ")}`),
+        `Title: ${(options.title || "BringYourSub").replace(/\n/g, " ")}`,
+        "ScriptType: v4.00+",
+        "WrapStyle: 0",
+        "ScaledBorderAndShadow: yes",
+        `PlayResX: ${PLAY_RES_X}`,
+        `PlayResY: ${PLAY_RES_Y}`
+    ];
+
+    const styleSection = [
+        "[V4+ Styles]",
+        `Format: ${STYLE_FIELDS}`,
+        ...styles.map(formatStyle)
+    ];
+
+    const events = [
+        "[Events]",
+        `Format: ${EVENT_FIELDS}`,
+        ...cues.map(cue => {
+            const style = cue.style && styleNames.has(cue.style) ? cue.style : styles[0].name;
+            return `Dialogue: 0,${formatASSTime(cue.start)},${formatASSTime(cue.end)},${style},,0,0,0,,${escapeText(cue.text)}`;
+        })
+    ];
+
+    return [scriptInfo, styleSection, events].map(section => section.join("\n")).join("\n\n") + "\n";
+}
+
+function formatStyle(style: ASSStyle): string {
+    return "Style: " + [
+        style.name.replace(/,/g, ";"),
+        style.fontName,
+        style.fontSize,
+        toASSColor(style.primaryColor),
+        toASSColor("#0000FF"), // secondary colour, only used by karaoke effects
+        toASSColor(style.outlineColor),
+        toASSColor(style.backColor),
+        style.bold ? -1 : 0,
+        style.italic ? -1 : 0,
+        0, 0, 100, 100, 0, 0,
+        style.borderStyle,
+        style.outline,
+        style.shadow,
+        style.alignment,
+        40, 40,
+        style.marginV,
+        1
+    ].join(",");
+}
+
+/**
+ * Converts "#RRGGBB" or "#RRGGBBAA" to "&HAABBGGRR"
+ *
+ * ASS alpha counts transparency, so CSS alpha FF (opaque) becomes 00.
+ */
+export function toASSColor(color: string): string {
+    const hex = color.replace("#", "").toUpperCase();
+    const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+    const alpha = hex.length === 8 ? 255 - parseInt(hex.slice(6, 8), 16) : 0;
+
+    return `&H${alpha.toString(16).toUpperCase().padStart(2, "0")}${b}${g}${r}`;
+}
+
+/**
+ * Formats seconds as "h:mm:ss.cc"
+ */
+function formatASSTime(seconds: number): string {
+    const totalCs = Math.max(0, Math.round(seconds * 100));
+    const hrs = Math.floor(totalCs / 360000);
+    const mins = Math.floor((totalCs % 360000) / 6000);
+    const secs = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
+
+    return `${hrs}:${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}.${String(cs).padStart(2, "0")}`;
+}
+
+/**
+ * Parses ASS or SSA text into cues
+ *
+ * Reads the `Dialogue` lines of the `[Events]` section in the field order
+ * of its `Format` line. Cues are sorted by start time.
+ */
+export function parseASS(assText: string): SubtitleParseResult {
+    const cues: SubtitleCue[] = [];
+    const errors: SubtitleParseError[] = [];
+    const lines = assText.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+    let section = "";
+    let fields = EVENT_FIELDS.split(", ");
+
+    lines.forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        const sectionMatch = line.match(/^\[(.+)\]$/);
+        if (sectionMatch) {
+            section = sectionMatch[1].toLowerCase();
+            return;
+        }
+        if (section !== "events") return;
+
+        if (/^Format:/i.test(line)) {
+            fields = line.slice(line.indexOf(":") + 1).split(",").map(field => field.trim());
+            return;
+        }
+        if (!/^Dialogue:/i.test(line)) return;
+
+        // The text is the last field and may itself contain commas
+        const values = splitFields(line.slice(line.indexOf(":") + 1), fields.length);
+        const get = (name: string) => values[fields.findIndex(field => field.toLowerCase() === name)]?.trim() ?? "";
+
+        const start = parseASSTime(get("start"));
+        const end = parseASSTime(get("end"));
+        if (start === null || end === null) {
+            errors.push({ line: index + 1, message: "Invalid time" });
+            return;
+        }
+        if (end < start) {
+            errors.push({ line: index + 1, message: "Cue ends before it starts" });
+            return;
+        }
+
+        const text = unescapeText(values[values.length - 1] ?? "");
+        if (!text) return;
+
+        const style = get("style").replace(/^\*/, "");
+        cues.push({ start, end, text, ...(style ? { style } : {}) });
+    });
+
+    cues.sort((a, b) => a.start - b.start);
+    return { cues, errors };
+}
+
+/**
+ * Checks whether text looks like an ASS or SSA script
+ */
+export function isASS(text: string): boolean {
+    return /^\s*\[Script Info\]/i.test(text.replace(/^\uFEFF/, "")) || /^\s*Dialogue:\s*\w*=?\d+,/im.test(text);
+}
+
+function splitFields(text: string, count: number): string[] {
+    const parts = text.split(",");
+    return [...parts.slice(0, count - 1), parts.slice(count - 1).join(",")];
+}
+
+/**
+ * Parses "h:mm:ss.cc" into seconds
+ */
+function parseASSTime(time: string): number | null {
+    const match = time.match(/^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/);
+    if (!match) return null;
+
+    const [, hours, minutes, seconds, fraction] = match;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) +
+        (fraction ? parseFloat(`0.${fraction}`) : 0);
+}
+
+/**
+ * Turns `\N` into line breaks, unescapes braces and turns italic, bold and
+ * underline overrides into tags; other override blocks are dropped
+ */
+function unescapeText(text: string): string {
+    const withTags = text
+        .replace(/\\[Nn]/g, "\n")
+        .replace(/\\h/g, "\u00A0")
+        .replace(/\\([{}])|\{([^}]*)\}/g, (_, brace: string | undefined, block: string | undefined) =>
+            brace ?? Array.from(block!.matchAll(/\\([ibu])(\d+)/g), ([, tag, value]) => value === "0" ? `</${tag}>` : `<${tag}>`).join("")
+        );
+
+    return cleanCueMarkup(withTags).trim();
+}
+
+/**
+ * Removes cue markup, escapes override braces and turns line breaks into `\N`
+ */
+function escapeText(text: string): string {
+    return stripCueMarkup(text)
+        .replace(/[{}]/g, brace => `\\${brace}`)
+        .replace(/\r?\n/g, "\\N");
+}
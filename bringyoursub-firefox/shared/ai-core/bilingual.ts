@@ -0,0 +1,85 @@
+/**
+ * Dual (Bilingual) Subtitles
+ *
+ * Shows the original caption together with its translation, for language
+ * learners. The pipeline writes the source text as a second SRT track with
+ * the same cue timings (`sourceSrt`); both tracks are paired back into
+ * cues carrying `source`, and written as bilingual SRT (original as a
+ * second, optionally colored line) or ASS (original on its own style).
+ *
+ * @module ai-core/bilingual
+ */
+
+import type { SubtitleCue } from "./subtitles.js";
+import { formatSRT } from "./srt.js";
+import { createASSStyle, type ASSPreset, type ASSStyle } from "./ass.js";
+
+/** Original text under the translation, or at the opposite edge of the video */
+export type DualLayout = "stacked" | "split";
+
+/** ASS style name of the original text */
+export const SOURCE_STYLE_NAME = "Secondary";
+
+/** Size of the original text relative to the translation */
+export const SOURCE_FONT_SCALE = 0.85;
+
+/** Color of the original text unless one is chosen */
+export const DEFAULT_SOURCE_COLOR = "#FFD500";
+
+/** Cue times within this many seconds are considered the same */
+const TIME_TOLERANCE = 0.001;
+
+/**
+ * Sets `source` on every cue that has a source cue with the same timing
+ */
+export function pairSourceCues(cues: SubtitleCue[], sourceCues: SubtitleCue[]): SubtitleCue[] {
+    return cues.map(cue => {
+        const match = sourceCues.find(source =>
+            Math.abs(source.start - cue.start) < TIME_TOLERANCE && Math.abs(source.end - cue.end) < TIME_TOLERANCE
+        );
+        return match ? { ...cue, source: match.text } : cue;
+    });
+}
+
+/**
+ * Serializes cues as SRT with the original text below the translation
+ *
+ * @param sourceColor - Color of the original text as "#RRGGBB" (default: not colored)
+ */
+export function formatBilingualSRT(cues: SubtitleCue[], sourceColor?: string): string {
+    return formatSRT(cues.map(cue => {
+        if (!cue.source) return cue;
+
+        const source = sourceColor ? `<font color="${sourceColor}">${cue.source}</font>` : cue.source;
+        return { ...cue, text: `${cue.text}\n${source}` };
+    }));
+}
+
+/**
+ * Adds an event with the original text, in the `SOURCE_STYLE_NAME` style,
+ * after every cue that has one
+ */
+export function toBilingualASSCues(cues: SubtitleCue[]): SubtitleCue[] {
+    return cues.flatMap(cue => cue.source
+        ? [cue, { start: cue.start, end: cue.end, text: cue.source, style: SOURCE_STYLE_NAME }]
+        : [cue]);
+}
+
+/**
+ * Builds the ASS style of the original text from the overlay settings
+ *
+ * Stacked text shares the position of the translation and is stacked by
+ * the player; split text goes to the opposite edge.
+ */
+export function createSourceASSStyle(
+    preset: ASSPreset,
+    fontSize: string,
+    position: string,
+    layout: DualLayout,
+    color: string
+): ASSStyle {
+    const opposite = position === "top" ? "bottom" : "top";
+    const style = createASSStyle(SOURCE_STYLE_NAME, preset, fontSize, layout === "split" ? opposite : position);
+
+    return { ...style, fontSize: Math.round(style.fontSize * SOURCE_FONT_SCALE), primaryColor: color };
+}
@@ -2,31 +2,50 @@
  * Smart Transcript Chunker
  * 
  * Intelligently splits transcripts into chunks optimized for:
- * - Token limits of LLM models
- * - Sentence boundaries (no mid-sentence breaks)
- * - SRT segment timing (~5 seconds per segment)
+ * - Token limits of LLM models (counted with the model's tokenizer)
+ * - Sentence boundaries (no mid-sentence breaks, see `segmenter`)
+ * - SRT segment timing (cue durations from `ChunkConfig`)
+ * - Source caption timing, when the transcript is timed
  * 
  * @module ai-core/chunker
  */
 
+import { transcriptToText, type TranscriptLine } from "./transcript.js";
+import { cl100kCounter, type TokenCounter } from "./tokenizer.js";
+import { groupIntoSentences, splitSentences } from "./segmenter.js";
+import { DEFAULT_CHUNK_CONFIG, type ChunkConfig } from "./config.js";
+import { formatSRT } from "./srt.js";
+
+export { groupIntoSentences, type ChunkConfig };
+
 /** Chunked transcript with metadata */
 export interface TranscriptChunk {
   index: number;
   total: number;
   content: string;
   estimatedDuration: number; // seconds
+  /** Timed sentences of this chunk (only for timed transcripts) */
+  lines?: TranscriptLine[];
 }
 
-/** Configuration for chunking */
-export interface ChunkConfig {
-  maxTokens: number;
-  targetSegmentDuration: number; // seconds
+/** Timed subtitle segment */
+export interface TimedSegment {
+  content: string;
+  startTime: number;
+  endTime: number;
+  /** Source text the content was translated from, for dual subtitles */
+  source?: string;
 }
 
+/** Cue duration settings used when cutting translations into segments */
+export type SegmentTiming = Pick<ChunkConfig, "targetSegmentDuration" | "minSegmentDuration" | "maxSegmentDuration">;
+
 /** Estimates for different transcript types */
 interface TranscriptEstimates {
   isLongVideo: boolean;
   estimatedDuration: number; // minutes
+  estimatedTokens: number;
+  /** Chunk size used when `ChunkConfig.maxTokens` is not set */
   recommendedChunkSize: number;
   warningMessage?: string;
 }
@@ -34,8 +53,10 @@ interface TranscriptEstimates {
 /**
  * Estimates video characteristics from transcript length
  * Average speaking rate: ~150 words/minute = ~600 chars/minute
+ *
+ * @param counter - Tokenizer of the translation model (default: cl100k)
  */
-export function estimateTranscript(text: string): TranscriptEstimates {
+export function estimateTranscript(text: string, counter: TokenCounter = cl100kCounter): TranscriptEstimates {
   const charCount = text.length;
   const charsPerMinute = 600;
   const estimatedMinutes = charCount / charsPerMinute;
@@ -66,6 +87,7 @@ export function estimateTranscript(text: string): TranscriptEstimates {
   return {
     isLongVideo: estimatedMinutes > 15,
     estimatedDuration: Math.round(estimatedMinutes),
+    estimatedTokens: counter.count(text),
     recommendedChunkSize,
     warningMessage
   };
@@ -74,74 +96,127 @@ export function estimateTranscript(text: string): TranscriptEstimates {
 /**
  * Chunks a transcript into segments for translation
  * 
- * @param text - The full transcript text
+ * Timed transcripts keep their sentence timings on each chunk so the
+ * translated subtitles can be anchored to the source captions.
+ * 
+ * @param transcript - The full transcript text or its timed lines
  * @param maxTokens - Maximum tokens per chunk (default: auto-calculated)
+ * @param counter - Tokenizer of the translation model (default: cl100k)
  * @returns Array of chunks with metadata
  */
-export function chunkTranscript(text: string, maxTokens?: number): TranscriptChunk[] {
-  const estimates = estimateTranscript(text);
-  const effectiveMaxTokens = maxTokens || estimates.recommendedChunkSize;
+export function chunkTranscript(
+  transcript: string | TranscriptLine[],
+  maxTokens?: number,
+  counter: TokenCounter = cl100kCounter
+): TranscriptChunk[] {
+  const isTimed = typeof transcript !== "string";
+  const text = isTimed ? transcriptToText(transcript) : transcript;
+
+  const effectiveMaxTokens = maxTokens || estimateTranscript(text, counter).recommendedChunkSize;
+
+  // Split by sentences (timed captions may also be split at pauses)
+  const sentences: TranscriptLine[] = isTimed
+    ? groupIntoSentences(transcript)
+    : splitSentences(text).map(sentence => ({
+      text: sentence,
+      start: 0,
+      duration: 0
+    }));
+
+  const chunks = groupByTokens(sentences.filter(sentence => sentence.text), effectiveMaxTokens, counter);
 
-  const charactersPerToken = 4;
-  const maxChars = effectiveMaxTokens * charactersPerToken;
+  // Calculate estimated duration per chunk
+  const charsPerSecond = 10; // ~150 words/min = 10 chars/sec
 
-  // Split by sentences (handles multiple punctuation types)
-  const sentences = text.match(/[^.!?]+[.!?]+(?:\s|$)|[^.!?]+$/g) || [text];
+  return chunks.map((chunkSentences, index) => {
+    const content = chunkSentences.map(s => s.text).join(" ");
+
+    return {
+      index: index + 1,
+      total: chunks.length,
+      content,
+      estimatedDuration: isTimed
+        ? Math.ceil(getTimeRange(chunkSentences).duration)
+        : Math.ceil(content.length / charsPerSecond),
+      lines: isTimed ? chunkSentences : undefined
+    };
+  });
+}
 
-  const chunks: string[] = [];
-  let currentChunk = "";
+/**
+ * Packs sentences into groups of at most `maxTokens` tokens
+ *
+ * A sentence longer than the limit gets a group of its own.
+ */
+function groupByTokens(sentences: TranscriptLine[], maxTokens: number, counter: TokenCounter): TranscriptLine[][] {
+  const groups: TranscriptLine[][] = [];
+  let current: TranscriptLine[] = [];
+  let currentTokens = 0;
 
   for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim();
-    if (!trimmedSentence) continue;
-
-    // If adding this sentence exceeds limit, start new chunk
-    if (currentChunk.length + trimmedSentence.length > maxChars && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = "";
+    // One extra token for the space joining sentences
+    const tokens = counter.count(sentence.text) + 1;
+
+    // If adding this sentence exceeds limit, start new group
+    if (currentTokens + tokens > maxTokens && current.length > 0) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
     }
 
-    currentChunk += (currentChunk ? " " : "") + trimmedSentence;
+    current.push(sentence);
+    currentTokens += tokens;
   }
 
-  // Add remaining content
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
+  if (current.length > 0) {
+    groups.push(current);
   }
 
-  // Calculate estimated duration per chunk
-  const charsPerSecond = 10; // ~150 words/min = 10 chars/sec
+  return groups;
+}
 
-  return chunks.map((content, index) => ({
-    index: index + 1,
-    total: chunks.length,
-    content,
-    estimatedDuration: Math.ceil(content.length / charsPerSecond)
-  }));
+/**
+ * Returns the start and total duration covered by timed lines
+ */
+function getTimeRange(lines: TranscriptLine[]): { start: number; duration: number } {
+  if (lines.length === 0) return { start: 0, duration: 0 };
+
+  const start = lines[0].start;
+  const end = Math.max(...lines.map(line => line.start + line.duration));
+  return { start, duration: Math.max(0, end - start) };
 }
 
 /**
  * Creates smaller chunks from a failed chunk
  * Used when token limit is exceeded
+ *
+ * The chunk is cut at sentence boundaries into about `factor` parts of
+ * equal token count.
  */
-export function rechunkOnError(chunk: TranscriptChunk, factor: number = 2): TranscriptChunk[] {
-  const sentences = chunk.content.match(/[^.!?]+[.!?]+(?:\s|$)|[^.!?]+$/g) || [chunk.content];
-  const targetSize = Math.ceil(sentences.length / factor);
-
-  const smallerChunks: string[] = [];
-  let currentChunk: string[] = [];
-
-  for (const sentence of sentences) {
-    currentChunk.push(sentence.trim());
-    if (currentChunk.length >= targetSize) {
-      smallerChunks.push(currentChunk.join(" "));
-      currentChunk = [];
-    }
+export function rechunkOnError(
+  chunk: TranscriptChunk,
+  factor: number = 2,
+  counter: TokenCounter = cl100kCounter
+): TranscriptChunk[] {
+  if (chunk.lines && chunk.lines.length > 0) {
+    const totalTokens = chunk.lines.reduce((sum, line) => sum + counter.count(line.text) + 1, 0);
+    const groups = groupByTokens(chunk.lines, Math.ceil(totalTokens / factor), counter);
+
+    return groups.map((group, index) => ({
+      index: index + 1,
+      total: groups.length,
+      content: group.map(line => line.text).join(" "),
+      estimatedDuration: Math.ceil(getTimeRange(group).duration),
+      lines: group
+    }));
   }
 
-  if (currentChunk.length > 0) {
-    smallerChunks.push(currentChunk.join(" "));
-  }
+  const sentences = splitSentences(chunk.content)
+    .map(sentence => ({ text: sentence, start: 0, duration: 0 }));
+  const totalTokens = sentences.reduce((sum, sentence) => sum + counter.count(sentence.text) + 1, 0);
+
+  const smallerChunks = groupByTokens(sentences, Math.ceil(totalTokens / factor), counter)
+    .map(group => group.map(sentence => sentence.text).join(" "));
 
   const charsPerSecond = 10;
 
@@ -159,64 +234,193 @@ export function rechunkOnError(chunk: TranscriptChunk, factor: number = 2): Tran
 export function generateSRT(
   chunks: Array<{ content: string; startTime: number; endTime: number }>
 ): string {
-  return chunks.map((chunk, index) => {
-    const formatTime = (seconds: number): string => {
-      const hrs = Math.floor(seconds / 3600);
-      const mins = Math.floor((seconds % 3600) / 60);
-      const secs = Math.floor(seconds % 60);
-      const ms = Math.floor((seconds % 1) * 1000);
-      return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
-    };
-
-    return `${index + 1}\n${formatTime(chunk.startTime)} --> ${formatTime(chunk.endTime)}\n${chunk.content}\n`;
-  }).join('\n');
+  return formatSRT(chunks.map(chunk => ({ start: chunk.startTime, end: chunk.endTime, text: chunk.content })));
 }
 
 /**
- * Splits text into SRT-style segments (~5 seconds each)
+ * Splits text into SRT-style segments
+ *
+ * Sentences are grouped up to the target cue duration. A sentence longer
+ * than the maximum is split at word boundaries, and cues shorter than the
+ * minimum are merged into a neighbour when that stays within the maximum.
+ * Without a positive duration, the text is timed at the speaking rate.
  */
 export function splitIntoSRTSegments(
   text: string,
-  totalDuration: number
+  totalDuration: number,
+  timing: SegmentTiming = DEFAULT_CHUNK_CONFIG
 ): Array<{ content: string; startTime: number; endTime: number }> {
-  const sentences = text.match(/[^.!?]+[.!?]+(?:\s|$)|[^.!?]+$/g) || [text];
-  const segments: Array<{ content: string; startTime: number; endTime: number }> = [];
+  if (!text.trim()) return [];
+  if (!(totalDuration > 0) || !Number.isFinite(totalDuration)) {
+    totalDuration = Math.ceil(text.length / 10); // ~150 words/min = 10 chars/sec
+  }
 
-  const targetSegmentDuration = 5; // seconds
   const charsPerSecond = text.length / totalDuration;
+  const durationOf = (content: string) => content.length / charsPerSecond;
 
+  const pieces = splitSentences(text).flatMap(sentence =>
+    splitLongSentence(sentence, Math.ceil(durationOf(sentence) / timing.maxSegmentDuration))
+  );
+
+  // Group sentences up to the target duration
+  const contents: string[] = [];
   let currentSegment = "";
-  let currentStartTime = 0;
 
-  for (const sentence of sentences) {
-    const trimmed = sentence.trim();
-    if (!trimmed) continue;
-
-    const sentenceDuration = trimmed.length / charsPerSecond;
-
-    if (currentSegment && (currentSegment.length / charsPerSecond) + sentenceDuration > targetSegmentDuration) {
-      // Finalize current segment
-      const endTime = currentStartTime + (currentSegment.length / charsPerSecond);
-      segments.push({
-        content: currentSegment,
-        startTime: currentStartTime,
-        endTime
-      });
-      currentStartTime = endTime;
-      currentSegment = trimmed;
+  for (const piece of pieces) {
+    if (currentSegment && durationOf(currentSegment) + durationOf(piece) > timing.targetSegmentDuration) {
+      contents.push(currentSegment);
+      currentSegment = piece;
     } else {
-      currentSegment += (currentSegment ? " " : "") + trimmed;
+      currentSegment += (currentSegment ? " " : "") + piece;
     }
   }
 
-  // Add final segment
   if (currentSegment) {
-    segments.push({
-      content: currentSegment,
-      startTime: currentStartTime,
-      endTime: totalDuration
-    });
+    contents.push(currentSegment);
   }
 
-  return segments;
+  const merged = mergeShortSegments(contents, durationOf, timing);
+
+  // Lay the segments out back to back; the last one ends with the text
+  let startTime = 0;
+  return merged.map((content, index) => {
+    const endTime = index === merged.length - 1 ? totalDuration : startTime + durationOf(content);
+    const segment = { content, startTime, endTime };
+    startTime = endTime;
+    return segment;
+  });
+}
+
+/**
+ * Splits a sentence into about `parts` pieces of similar length, at spaces
+ * where the script has them
+ */
+function splitLongSentence(sentence: string, parts: number): string[] {
+  if (!(parts > 1)) return [sentence];
+
+  const words = sentence.includes(" ") ? sentence.split(/\s+/) : Array.from(sentence);
+  const separator = sentence.includes(" ") ? " " : "";
+  const targetLength = sentence.length / parts;
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const word of words) {
+    if (current.length > 0 && currentLength + word.length > targetLength) {
+      pieces.push(current.join(separator));
+      current = [];
+      currentLength = 0;
+    }
+    current.push(word);
+    currentLength += word.length + separator.length;
+  }
+
+  if (current.length > 0) {
+    pieces.push(current.join(separator));
+  }
+
+  return pieces;
+}
+
+/**
+ * Merges cues below the minimum duration into the previous or next cue
+ */
+function mergeShortSegments(
+  contents: string[],
+  durationOf: (content: string) => number,
+  timing: SegmentTiming
+): string[] {
+  const merged = [...contents];
+
+  for (let i = 0; i < merged.length && merged.length > 1; i++) {
+    if (durationOf(merged[i]) >= timing.minSegmentDuration) continue;
+
+    const withPrevious = i > 0 ? `${merged[i - 1]} ${merged[i]}` : null;
+    const withNext = i < merged.length - 1 ? `${merged[i]} ${merged[i + 1]}` : null;
+
+    if (withPrevious && durationOf(withPrevious) <= timing.maxSegmentDuration) {
+      merged.splice(i - 1, 2, withPrevious);
+      i--;
+    } else if (withNext && durationOf(withNext) <= timing.maxSegmentDuration) {
+      merged.splice(i, 2, withNext);
+      i--;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Maps a position within timed lines (0-1, by characters) to a timestamp
+ *
+ * Positions exactly on a line boundary resolve to the end of the earlier
+ * line for `"end"` and to the start of the later line for `"start"`, so
+ * gaps between captions stay empty.
+ */
+function toSourceTime(lines: TranscriptLine[], fraction: number, edge: "start" | "end"): number {
+  const totalChars = lines.reduce((sum, line) => sum + line.text.length, 0);
+  const position = Math.min(1, Math.max(0, fraction)) * totalChars;
+
+  let offset = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const length = line.text.length;
+    const isLast = i === lines.length - 1;
+    const isInside = edge === "start"
+      ? position < offset + length
+      : position <= offset + length;
+
+    if (isInside || isLast) {
+      const ratio = length > 0 ? Math.min(1, (position - offset) / length) : 0;
+      return line.start + ratio * line.duration;
+    }
+    offset += length;
+  }
+
+  return 0;
+}
+
+/**
+ * Splits translated text into SRT segments anchored to source caption times
+ *
+ * The translation is segmented like `splitIntoSRTSegments`, then every
+ * segment is placed on the source timeline by its relative position in the
+ * text, so pauses and pacing of the original captions are preserved.
+ */
+export function splitIntoTimedSegments(
+  text: string,
+  lines: TranscriptLine[],
+  timing: SegmentTiming = DEFAULT_CHUNK_CONFIG
+): TimedSegment[] {
+  if (lines.length === 0) return [];
+
+  const { duration } = getTimeRange(lines);
+  if (duration <= 0) {
+    return [{ content: text, startTime: lines[0].start, endTime: lines[0].start }];
+  }
+
+  return splitIntoSRTSegments(text, duration, timing).map(segment => ({
+    content: segment.content,
+    startTime: toSourceTime(lines, segment.startTime / duration, "start"),
+    endTime: toSourceTime(lines, segment.endTime / duration, "end")
+  }));
+}
+
+/**
+ * Pairs translated segments with the source text spoken at the same time
+ *
+ * Each segment gets the text of every source segment it overlaps. Used
+ * when translations cannot be matched to source sentences one by one.
+ */
+export function attachSourceText(segments: TimedSegment[], sourceSegments: TimedSegment[]): TimedSegment[] {
+  return segments.map(segment => {
+    const source = sourceSegments
+      .filter(part => part.startTime < segment.endTime && part.endTime > segment.startTime)
+      .map(part => part.content.trim())
+      .filter(Boolean)
+      .join(" ");
+
+    return source ? { ...segment, source } : segment;
+  });
 }
@@ -0,0 +1,291 @@
+/**
+ * Cue Shaping
+ *
+ * Turns translated segments into cues that can be read comfortably, after
+ * common subtitling guidelines:
+ * - At most two lines of about 42 characters, broken into balanced lines
+ *   at punctuation or before conjunctions rather than after articles
+ * - Long segments split into several cues at sentence and clause boundaries
+ * - A reading speed of about 17 characters per second, minimum and maximum
+ *   display durations, and a short gap between consecutive cues
+ *
+ * Chinese, Japanese and Korean are read per character and use shorter
+ * lines and lower speeds. The source text of a segment is kept on every
+ * cue made from it.
+ *
+ * @module ai-core/cues
+ */
+
+import type { TimedSegment } from "./chunker.js";
+import { splitSentences } from "./segmenter.js";
+
+/** Reading limits applied to every cue */
+export interface ReadingLimits {
+    /** Characters per line */
+    maxLineLength: number;
+    /** Lines per cue */
+    maxLines: number;
+    /** Reading speed in characters per second, line breaks not counted */
+    maxCharsPerSecond: number;
+    /** Shortest time a cue stays on screen (seconds) */
+    minDuration: number;
+    /** Longest time a cue stays on screen (seconds) */
+    maxDuration: number;
+    /** Empty time kept between consecutive cues (seconds) */
+    minGap: number;
+}
+
+/** Reading limits by language code; `default` covers alphabetic scripts */
+export const READING_PRESETS: Record<string, ReadingLimits> = {
+    default: { maxLineLength: 42, maxLines: 2, maxCharsPerSecond: 17, minDuration: 1, maxDuration: 7, minGap: 0.083 },
+    ja: { maxLineLength: 13, maxLines: 2, maxCharsPerSecond: 4, minDuration: 1, maxDuration: 7, minGap: 0.083 },
+    zh: { maxLineLength: 16, maxLines: 2, maxCharsPerSecond: 9, minDuration: 1, maxDuration: 7, minGap: 0.083 },
+    ko: { maxLineLength: 16, maxLines: 2, maxCharsPerSecond: 12, minDuration: 1, maxDuration: 7, minGap: 0.083 }
+};
+
+/** Language names as offered in the popup, mapped to preset codes */
+const LANGUAGE_CODES: Record<string, string> = {
+    japanese: "ja",
+    chinese: "zh",
+    korean: "ko"
+};
+
+/**
+ * Words that lead into the rest of a phrase (articles, prepositions,
+ * conjunctions); a line should not end with one
+ */
+const BINDING_WORDS = new Set([
+    // English
+    "a", "an", "the", "of", "to", "in", "on", "at", "for", "with", "from", "by",
+    "and", "but", "or", "because", "that", "which", "who", "if", "when",
+    // German
+    "der", "die", "das", "den", "dem", "ein", "eine", "und", "aber", "oder", "weil", "dass", "mit", "von", "zu",
+    // French
+    "le", "la", "les", "un", "une", "des", "du", "de", "et", "mais", "ou", "que", "qui", "pour", "dans",
+    // Spanish and Italian
+    "el", "los", "las", "y", "pero", "porque", "il", "lo", "gli", "e", "ma", "che", "per", "con",
+    // Turkish
+    "ve", "ama", "çünkü", "ile"
+]);
+
+/** Punctuation after which a line or cue may break */
+const CLAUSE_END = /[,;:—–…、，；：.!?。！？]["'”’)\]」』]*$/;
+
+/** Scripts written without spaces between words */
+const SPACELESS_SCRIPT = /[぀-ヿ㐀-鿿가-힯＀-￯]/;
+
+/**
+ * Picks the reading limits for a target language
+ *
+ * @param language - Language name ("Japanese", "Chinese (Simplified)") or
+ *                   code ("ja", "zh-TW")
+ */
+export function getReadingLimits(language?: string): ReadingLimits {
+    const name = (language || "").trim().toLowerCase();
+    const code = LANGUAGE_CODES[name.split(/[\s(]/)[0]] ?? name.split(/[-_]/)[0];
+    return READING_PRESETS[code] ?? READING_PRESETS.default;
+}
+
+/**
+ * Shapes timed segments into readable cues
+ *
+ * Each segment is split into cues that fit the line limits, sharing its
+ * time by length. Cues that are too short to read are then extended into
+ * the silence before the next cue, and every cue is held for at most
+ * `maxDuration` and ends `minGap` before the next one starts.
+ */
+export function shapeCues(
+    segments: TimedSegment[],
+    limits: ReadingLimits = READING_PRESETS.default
+): TimedSegment[] {
+    const cues: TimedSegment[] = [];
+
+    for (const segment of segments) {
+        const texts = splitCueText(segment.content, limits);
+        const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+        const duration = segment.endTime - segment.startTime;
+
+        let startTime = segment.startTime;
+        texts.forEach((text, index) => {
+            const endTime = index === texts.length - 1
+                ? segment.endTime
+                : startTime + duration * (text.length / totalLength);
+
+            cues.push({
+                content: breakLines(text, limits.maxLineLength, limits.maxLines).join("\n"),
+                startTime,
+                endTime,
+                ...(segment.source ? { source: segment.source } : {})
+            });
+            startTime = endTime;
+        });
+    }
+
+    return applyReadingTimes(cues, limits);
+}
+
+/**
+ * Splits text into pieces that fit one cue
+ *
+ * Sentences are kept together where they fit; longer sentences are split
+ * at clause punctuation, and only then between words.
+ */
+export function splitCueText(text: string, limits: ReadingLimits): string[] {
+    const capacity = limits.maxLineLength * limits.maxLines;
+
+    const pieces = splitSentences(text.replace(/\s+/g, " "))
+        .flatMap(sentence => splitToFit(sentence, capacity));
+
+    return packPieces(pieces, capacity);
+}
+
+/**
+ * Breaks cue text into at most `maxLines` lines
+ *
+ * Lines are kept close to equal length. Breaks after punctuation and
+ * before a conjunction or preposition are preferred; breaks after an
+ * article or preposition are avoided. Text that cannot fit keeps its last
+ * line long rather than being cut.
+ */
+export function breakLines(text: string, maxLineLength: number, maxLines: number = 2): string[] {
+    const clean = text.replace(/\s+/g, " ").trim();
+    const lineCount = Math.min(maxLines, Math.ceil(clean.length / maxLineLength));
+    if (lineCount <= 1) return [clean];
+
+    const { units, separator } = toUnits(clean);
+    const targetLength = clean.length / lineCount;
+
+    let best = -1;
+    let bestScore = Infinity;
+
+    for (let i = 1; i < units.length; i++) {
+        const line = units.slice(0, i).join(separator);
+        if (line.length > maxLineLength && best !== -1) break;
+
+        const score = scoreBreak(line, units[i], targetLength, maxLineLength);
+        if (score < bestScore) {
+            best = i;
+            bestScore = score;
+        }
+    }
+
+    if (best === -1) return [clean];
+
+    return [
+        units.slice(0, best).join(separator),
+        ...breakLines(units.slice(best).join(separator), maxLineLength, lineCount - 1)
+    ];
+}
+
+/**
+ * Scores a line break; lower is better
+ */
+function scoreBreak(line: string, nextUnit: string, targetLength: number, maxLineLength: number): number {
+    const lastWord = line.slice(line.lastIndexOf(" ") + 1).toLowerCase();
+
+    let score = Math.abs(line.length - targetLength) * 2;
+    if (line.length > maxLineLength) score += (line.length - maxLineLength) * 100;
+
+    if (CLAUSE_END.test(line)) {
+        score -= 12;
+    } else if (BINDING_WORDS.has(lastWord)) {
+        score += 10;
+    } else if (BINDING_WORDS.has(nextUnit.toLowerCase())) {
+        score -= 5;
+    }
+
+    return score;
+}
+
+/**
+ * Splits a sentence longer than `capacity` at clause punctuation, then
+ * between words into pieces of similar length
+ */
+function splitToFit(sentence: string, capacity: number): string[] {
+    if (sentence.length <= capacity) return [sentence];
+
+    const clauses = sentence.split(/(?<=[,;:—–、，；：])\s*/).filter(Boolean);
+    if (clauses.length > 1) {
+        return packPieces(clauses.flatMap(clause => splitToFit(clause, capacity)), capacity);
+    }
+
+    const { units, separator } = toUnits(sentence);
+    const targetLength = sentence.length / Math.ceil(sentence.length / capacity);
+
+    const pieces: string[] = [];
+    let current: string[] = [];
+    let currentLength = 0;
+
+    for (const unit of units) {
+        if (current.length > 0 && currentLength + unit.length > targetLength) {
+            pieces.push(current.join(separator));
+            current = [];
+            currentLength = 0;
+        }
+        current.push(unit);
+        currentLength += unit.length + separator.length;
+    }
+
+    if (current.length > 0) pieces.push(current.join(separator));
+    return pieces;
+}
+
+/**
+ * Joins consecutive pieces while they fit within `capacity`
+ */
+function packPieces(pieces: string[], capacity: number): string[] {
+    const packed: string[] = [];
+
+    for (const piece of pieces) {
+        const previous = packed[packed.length - 1];
+        const joined = previous !== undefined ? joinText(previous, piece) : piece;
+
+        if (previous !== undefined && joined.length <= capacity) {
+            packed[packed.length - 1] = joined;
+        } else {
+            packed.push(piece);
+        }
+    }
+
+    return packed;
+}
+
+/**
+ * Extends cues to their reading time and keeps them apart
+ */
+function applyReadingTimes(cues: TimedSegment[], limits: ReadingLimits): TimedSegment[] {
+    return cues.map((cue, index) => {
+        const next = cues[index + 1];
+        const readingTime = cue.content.replace(/\n/g, "").length / limits.maxCharsPerSecond;
+        const neededTime = Math.min(limits.maxDuration, Math.max(limits.minDuration, readingTime));
+        const latestEnd = next ? next.startTime - limits.minGap : Infinity;
+
+        let endTime = Math.min(
+            Math.max(cue.endTime, cue.startTime + neededTime),
+            cue.startTime + limits.maxDuration,
+            latestEnd
+        );
+
+        // Never shrink a cue to nothing to make room for the gap
+        if (endTime <= cue.startTime) {
+            endTime = Math.min(cue.endTime, next ? next.startTime : cue.endTime);
+        }
+
+        return { ...cue, endTime };
+    });
+}
+
+/**
+ * Splits text into words, or into characters for scripts without spaces
+ */
+function toUnits(text: string): { units: string[]; separator: string } {
+    return text.includes(" ")
+        ? { units: text.split(" "), separator: " " }
+        : { units: Array.from(text), separator: "" };
+}
+
+function joinText(first: string, second: string): string {
+    return SPACELESS_SCRIPT.test(first.slice(-1)) && SPACELESS_SCRIPT.test(second[0])
+        ? first + second
+        : `${first} ${second}`;
+}
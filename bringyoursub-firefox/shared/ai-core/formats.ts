@@ -0,0 +1,58 @@
+/**
+ * Subtitle Format Detection
+ *
+ * Reads subtitle text of any supported format. The format is recognized
+ * from the content (WebVTT header, ASS sections, SRT timing arrows) and
+ * only then from the file extension, since downloaded files are often
+ * misnamed.
+ *
+ * @module ai-core/formats
+ */
+
+import type { SubtitleFormat, SubtitleParseResult } from "./subtitles.js";
+import { parseSRT } from "./srt.js";
+import { isVTT, parseVTT } from "./vtt.js";
+import { isASS, parseASS } from "./ass.js";
+
+/** File extensions offered when opening subtitle files */
+export const SUBTITLE_FILE_EXTENSIONS = [".srt", ".vtt", ".ass", ".ssa"];
+
+/** Parse result with the format that was detected */
+export interface DetectedSubtitles extends SubtitleParseResult {
+    format: SubtitleFormat | null;
+}
+
+/**
+ * Detects the format of subtitle text
+ *
+ * @param fileName - Used when the content is not conclusive
+ * @returns The format, or null when it is not a supported subtitle file
+ */
+export function detectSubtitleFormat(text: string, fileName?: string): SubtitleFormat | null {
+    if (isVTT(text)) return "vtt";
+    if (isASS(text)) return "ass";
+    if (text.includes("-->")) return "srt";
+
+    const extension = fileName?.toLowerCase().match(/\.(\w+)$/)?.[1];
+    if (extension === "srt" || extension === "vtt") return extension;
+    if (extension === "ass" || extension === "ssa") return "ass";
+    return null;
+}
+
+/**
+ * Parses subtitle text in whatever supported format it is written in
+ */
+export function parseSubtitles(text: string, fileName?: string): DetectedSubtitles {
+    const format = detectSubtitleFormat(text, fileName);
+
+    switch (format) {
+        case "vtt":
+            return { format, ...parseVTT(text) };
+        case "ass":
+            return { format, ...parseASS(text) };
+        case "srt":
+            return { format, ...parseSRT(text) };
+        default:
+            return { format, cues: [], errors: [{ line: 1, message: "Not a supported subtitle format (SRT, WebVTT, ASS/SSA)" }] };
+    }
+}
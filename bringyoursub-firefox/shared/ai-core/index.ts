@@ -11,6 +11,7 @@
  *     AIPipeline,
  *     getNativeYouTubeTranscript,
  *     getWhisperTranscript,
+    estimateWhisperCost,
  *     chunkTranscript
  * } from "./shared/ai-core";
  * ```
@@ -19,15 +20,168 @@
 // Pipeline
 export { AIPipeline, type PipelineOptions } from "./pipeline.js";
 
+// Translation providers
+export {
+    createProvider,
+    OpenAIProvider,
+    OpenAICompatibleProvider,
+    AnthropicProvider,
+    GeminiProvider,
+    ProviderError,
+    DEFAULT_MODELS,
+    type ProviderId,
+    type ProviderConfig,
+    type TranslationProvider
+} from "./providers.js";
+
+// Structured cue translation
+export {
+    getChunkCues,
+    buildCueMessage,
+    parseCueTranslations,
+    type Cue,
+    type CueTranslationResult
+} from "./structured.js";
+
+// Glossary
+export {
+    selectGlossaryEntries,
+    formatGlossaryPrompt,
+    findGlossaryViolations,
+    containsTerm,
+    getExpectedTerm,
+    type GlossaryEntry,
+    type GlossaryScope,
+    type GlossaryViolation
+} from "./glossary.js";
+
+// Terminology pre-pass
+export {
+    extractTerminology,
+    parseTerminology,
+    mergeTerms,
+    formatTermPrompt,
+    type TermEntry,
+    type TermKind,
+    type TerminologyOptions
+} from "./terminology.js";
+
 // Transcript extraction
 export {
     getNativeYouTubeTranscript,
     getYouTubeVideoId,
-    type TranscriptLine
+    getCaptionTracks,
+    getVideoDuration,
+    parsePlayerResponse,
+    getCaptionTrackId,
+    selectCaptionTrack,
+    describeCaptionTracks,
+    fetchCaptionTrack,
+    parseTranscriptEvents,
+    transcriptToText,
+    type TranscriptLine,
+    type CaptionTrack,
+    type CaptionTrackInfo,
+    type PlayerResponse
 } from "./transcript.js";
 
 // Whisper fallback
-export { getWhisperTranscript } from "./whisper.js";
+export {
+    getWhisperTranscript,
+    whisperSegmentsToSRT,
+    whisperSegmentsToTranscript,
+    type WhisperResult,
+    type WhisperSegment
+} from "./whisper.js";
 
 // Chunking utilities
 export { chunkTranscript, type TranscriptChunk } from "./chunker.js";
+
+// Chunking configuration
+export {
+    DEFAULT_CHUNK_CONFIG,
+    CHUNK_CONFIG_LIMITS,
+    validateChunkConfig,
+    resolveChunkConfig,
+    migrateChunkConfig,
+    type ChunkConfig,
+    type StoredChunkConfig
+} from "./config.js";
+
+// Cue shaping
+export {
+    shapeCues,
+    splitCueText,
+    breakLines,
+    getReadingLimits,
+    READING_PRESETS,
+    type ReadingLimits
+} from "./cues.js";
+
+// Subtitle formats
+export {
+    formatTimestamp,
+    parseTimestamp,
+    findCueAt,
+    parseCueMarkup,
+    cleanCueMarkup,
+    stripCueMarkup,
+    type CueLookup,
+    type CueSpan,
+    type SubtitleCue,
+    type SubtitleFormat,
+    type SubtitleParseError,
+    type SubtitleParseResult
+} from "./subtitles.js";
+export { parseSRT, formatSRT } from "./srt.js";
+export { generateVTT, formatVTTCueText, parseVTT, isVTT, type VTTOptions } from "./vtt.js";
+export {
+    generateASS,
+    parseASS,
+    isASS,
+    createASSStyle,
+    toASSColor,
+    ASS_STYLE_PRESETS,
+    type ASSOptions,
+    type ASSPreset,
+    type ASSStyle
+} from "./ass.js";
+export {
+    pairSourceCues,
+    formatBilingualSRT,
+    toBilingualASSCues,
+    createSourceASSStyle,
+    SOURCE_STYLE_NAME,
+    SOURCE_FONT_SCALE,
+    DEFAULT_SOURCE_COLOR,
+    type DualLayout
+} from "./bilingual.js";
+export {
+    adjustCues,
+    adjustTime,
+    nudgeOffset,
+    syncTiming,
+    describeTiming,
+    isTimingAdjusted,
+    NO_TIMING_ADJUSTMENT,
+    OFFSET_STEP,
+    type SyncPoint,
+    type TimingAdjustment
+} from "./timing.js";
+export {
+    detectSubtitleFormat,
+    parseSubtitles,
+    SUBTITLE_FILE_EXTENSIONS,
+    type DetectedSubtitles
+} from "./formats.js";
+
+// Sentence segmentation
+export { splitSentences, endsSentence, groupIntoSentences } from "./segmenter.js";
+
+// Token counting
+export {
+    getTokenCounter,
+    o200kCounter,
+    cl100kCounter,
+    type TokenCounter
+} from "./tokenizer.js";
@@ -3,21 +3,79 @@
  * 
  * This module implements a robust translation pipeline that:
  * 1. Translates each chunk independently (more fault-tolerant)
- * 2. Retries on failure with exponential backoff
- * 3. Reduces chunk size if token limit exceeded
- * 4. Generates proper SRT format with timestamps
- * 5. Reports progress for UI updates
+ *    with a bounded number of requests in flight
+ * 2. Sends chunks as numbered cues and validates the JSON reply cue by cue,
+ *    retrying only the missing cues before falling back to free text
+ *    (also when the structured request itself fails)
+ * 3. Carries the end of the previous chunk and the nearest finished
+ *    translation into each request, within a token budget and a sliding
+ *    window under concurrency
+ * 4. Retries on failure with exponential backoff, shared across requests on rate limits
+ * 5. Reduces chunk size if token limit exceeded
+ * 6. Generates proper SRT format with timestamps anchored to source captions
+ * 7. Reports progress for UI updates
+ * 8. Stops early when cancelled, keeping the chunks translated so far
+ * 9. Works with any translation provider (OpenAI, Anthropic, Gemini, ...)
+ * 10. Enforces the user's glossary and flags cues that do not follow it
+ * 11. Pins the reviewed terminology of the video into every prompt
+ * 12. Shapes cues to line length and reading speed limits of the target language
+ * 13. Keeps the source text of every cue for dual (bilingual) subtitles
  * 
  * @module ai-core/pipeline
  */
 
-import { rechunkOnError, splitIntoSRTSegments, generateSRT } from './chunker.js';
+import {
+    attachSourceText,
+    rechunkOnError,
+    splitIntoSRTSegments,
+    splitIntoTimedSegments,
+    generateSRT,
+    type TimedSegment
+} from './chunker.js';
+import type { TranscriptLine } from './transcript.js';
+import { resolveChunkConfig, type ChunkConfig } from './config.js';
+import { getTokenCounter, type TokenCounter } from './tokenizer.js';
+import {
+    DEFAULT_MODELS,
+    OpenAIProvider,
+    ProviderError,
+    type ChatMessage,
+    type TranslationProvider
+} from './providers.js';
+import { buildCueMessage, getChunkCues, parseCueTranslations } from './structured.js';
+import {
+    findGlossaryViolations,
+    formatGlossaryPrompt,
+    getExpectedTerm,
+    type GlossaryEntry,
+    type GlossaryViolation
+} from './glossary.js';
+import { formatTermPrompt, type TermEntry } from './terminology.js';
+import { getReadingLimits, shapeCues, type ReadingLimits } from './cues.js';
 
 /** Configuration options for the AI pipeline */
 export interface PipelineOptions {
     apiKey: string;
     targetLanguage: string;
+    /** Translation backend (default: OpenAI using `apiKey`) */
+    provider?: TranslationProvider;
     model?: string;
+    /** Maximum number of chunks translated at the same time (default: 3) */
+    concurrency?: number;
+    /** Token budget for the previous chunk's text carried into each request (default: `chunkConfig.contextTokens`) */
+    contextTokens?: number;
+    /** Cue durations and context budget (defaults: `DEFAULT_CHUNK_CONFIG`) */
+    chunkConfig?: Partial<ChunkConfig>;
+    /** Glossary entries that apply to this video (see `selectGlossaryEntries`) */
+    glossary?: GlossaryEntry[];
+    /** Term map from the extraction pre-pass (glossary entries take precedence) */
+    terms?: TermEntry[];
+    /** Tokenizer used to split chunks that are too long (default: the model's) */
+    tokenCounter?: TokenCounter;
+    /** Line length and reading speed limits of the cues (default: preset of `targetLanguage`) */
+    readingLimits?: ReadingLimits;
+    /** Cancels pending requests and retries; finished chunks are still returned */
+    signal?: AbortSignal;
     videoMetadata: {
         title: string;
         channel: string;
@@ -25,158 +83,363 @@ export interface PipelineOptions {
     onProgress?: (message: string, chunkIndex: number, totalChunks: number) => void;
 }
 
-/** OpenAI chat message format */
-interface ChatMessage {
-    role: "system" | "user" | "assistant";
-    content: string;
-}
-
-/** OpenAI API response structure */
-interface OpenAIResponse {
-    choices: Array<{
-        message: {
-            content: string;
-        };
-    }>;
-    error?: {
-        message: string;
-        type?: string;
-        code?: string;
-    };
-}
-
 /** Result of chunk translation */
 interface ChunkResult {
     index: number;
     success: boolean;
     translation?: string;
+    /** Translation of each cue, when the structured reply was complete */
+    cues?: string[];
     error?: string;
 }
 
+/** Rounds of targeted retries for cues missing from a structured reply */
+const MAX_CUE_RETRIES = 2;
+
+/**
+ * Returns the end of a text within `maxTokens`, starting at a sentence
+ * (or at least word) boundary
+ */
+function takeTail(text: string, maxTokens: number, tokenCounter: TokenCounter): string {
+    const trimmed = text.trim();
+    if (tokenCounter.count(trimmed) <= maxTokens) return trimmed;
+
+    // Binary search for the most trailing words that fit
+    const words = trimmed.split(/\s+/);
+    let low = 0;
+    let high = words.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (tokenCounter.count(words.slice(words.length - mid).join(" ")) <= maxTokens) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    const tail = words.slice(words.length - low).join(" ");
+    const sentenceStart = tail.search(/[.!?]\s+\S/);
+    if (sentenceStart >= 0 && sentenceStart < tail.length / 2) {
+        return tail.slice(sentenceStart + 1).trim();
+    }
+    return tail;
+}
+
 /** Pipeline statistics */
 export interface PipelineStats {
     totalChunks: number;
     successfulChunks: number;
     failedChunks: number;
     retriedChunks: number;
+    /** Targeted requests for cues missing from a structured reply */
+    retriedCues: number;
+    /** Chunks translated as free text after the structured request failed or its reply stayed incomplete */
+    fallbackChunks: number;
     usedWhisper: boolean;
+    cancelled: boolean;
 }
 
 /**
  * AI Pipeline class with robust error handling and retry logic
  */
 export class AIPipeline {
-    private readonly apiKey: string;
+    private readonly provider: TranslationProvider;
     private readonly targetLanguage: string;
     private readonly videoMetadata: { title: string; channel: string };
     private readonly model: string;
+    private readonly concurrency: number;
+    private readonly contextTokens: number;
+    private readonly chunkConfig: ChunkConfig;
+    private readonly glossary: GlossaryEntry[];
+    private readonly terms: TermEntry[];
+    private readonly tokenCounter: TokenCounter;
+    private readonly readingLimits: ReadingLimits;
+    private readonly signal?: AbortSignal;
     private readonly onProgress?: (message: string, chunkIndex: number, totalChunks: number) => void;
 
+    /** Timestamp (ms) until which all requests hold off after a rate limit */
+    private rateLimitedUntil = 0;
+
+    /** Set once the provider refuses JSON requests; later chunks go straight to free text */
+    private structuredRejected = false;
+
     private stats: PipelineStats = {
         totalChunks: 0,
         successfulChunks: 0,
         failedChunks: 0,
         retriedChunks: 0,
-        usedWhisper: false
+        retriedCues: 0,
+        fallbackChunks: 0,
+        usedWhisper: false,
+        cancelled: false
     };
 
     constructor(options: PipelineOptions) {
-        this.apiKey = options.apiKey;
+        this.provider = options.provider || new OpenAIProvider(options.apiKey);
         this.targetLanguage = options.targetLanguage;
-        this.model = options.model || "gpt-4o-mini";
+        this.model = options.model || DEFAULT_MODELS[this.provider.id];
+        this.concurrency = Math.max(1, Math.floor(options.concurrency || 3));
+        this.chunkConfig = resolveChunkConfig(options.chunkConfig);
+        this.contextTokens = Math.max(0, options.contextTokens ?? this.chunkConfig.contextTokens);
+        this.glossary = options.glossary || [];
+        this.terms = (options.terms || []).filter(term => !this.glossary.some(
+            entry => entry.source.trim().toLowerCase() === term.source.toLowerCase()
+        ));
+        this.tokenCounter = options.tokenCounter || getTokenCounter(this.model);
+        this.readingLimits = options.readingLimits || getReadingLimits(this.targetLanguage);
+        this.signal = options.signal;
         this.videoMetadata = options.videoMetadata;
         this.onProgress = options.onProgress;
     }
 
     /**
-     * Makes a request to OpenAI with retry logic
+     * Makes a request to the provider with retry logic
      */
-    private async callOpenAI(messages: ChatMessage[], retryCount = 0): Promise<string> {
+    private async callProvider(messages: ChatMessage[], json = false, retryCount = 0): Promise<string> {
         const maxRetries = 3;
         const baseDelay = 1000;
 
         try {
-            const response = await fetch("https://api.openai.com/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${this.apiKey}`
-                },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages: messages,
-                    temperature: 0.3,
-                    max_tokens: 4000
-                })
+            await this.waitForRateLimit();
+
+            return await this.provider.complete({
+                model: this.model,
+                messages,
+                temperature: 0.3,
+                maxTokens: 4000,
+                json,
+                signal: this.signal
             });
+        } catch (error) {
+            if (this.signal?.aborted) {
+                throw new Error("GENERATION_CANCELLED");
+            }
 
-            if (!response.ok) {
-                const error: OpenAIResponse = await response.json();
-                const errorMessage = error.error?.message || "OpenAI API request failed";
-                const errorCode = error.error?.code;
-
-                // Handle rate limits with retry
-                if (response.status === 429 && retryCount < maxRetries) {
-                    const delay = baseDelay * Math.pow(2, retryCount);
-                    console.log(`[BringYourSub] Rate limited, retrying in ${delay}ms...`);
-                    await this.sleep(delay);
-                    this.stats.retriedChunks++;
-                    return this.callOpenAI(messages, retryCount + 1);
-                }
-
-                // Handle token limit errors
-                if (errorCode === "context_length_exceeded") {
-                    throw new Error("TOKEN_LIMIT_EXCEEDED");
-                }
-
-                throw new Error(errorMessage);
+            // Handle rate limits with retry, pausing every request in flight
+            if (error instanceof ProviderError && error.isRateLimit && retryCount < maxRetries) {
+                const delay = error.retryAfter ? error.retryAfter * 1000 : baseDelay * Math.pow(2, retryCount);
+                console.log(`[BringYourSub] Rate limited, retrying in ${delay}ms...`);
+                this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay);
+                this.stats.retriedChunks++;
+                return this.callProvider(messages, json, retryCount + 1);
             }
 
-            const data: OpenAIResponse = await response.json();
-            return data.choices[0].message.content;
-        } catch (error) {
             if (retryCount < maxRetries && error instanceof Error &&
                 !error.message.includes("TOKEN_LIMIT") &&
-                !error.message.includes("Invalid API")) {
+                !(error instanceof ProviderError && (error.isClientError || error.isRateLimit))) {
                 const delay = baseDelay * Math.pow(2, retryCount);
                 await this.sleep(delay);
                 this.stats.retriedChunks++;
-                return this.callOpenAI(messages, retryCount + 1);
+                return this.callProvider(messages, json, retryCount + 1);
             }
             throw error;
         }
     }
 
+    /**
+     * Waits for the given time, rejecting early when the pipeline is cancelled
+     */
     private sleep(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+        return new Promise((resolve, reject) => {
+            if (this.signal?.aborted) {
+                reject(new Error("GENERATION_CANCELLED"));
+                return;
+            }
+
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Error("GENERATION_CANCELLED"));
+            };
+            const timer = setTimeout(() => {
+                this.signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, ms);
+
+            this.signal?.addEventListener("abort", onAbort, { once: true });
+        });
     }
 
     /**
-     * Translates a single chunk with error handling
+     * Waits out a rate limit reported by any request
      */
-    private async translateChunk(
-        chunk: { content: string; index: number; total: number },
-        context: string
-    ): Promise<ChunkResult> {
-        const systemPrompt = `You are a professional subtitle translator. Translate the following transcript segment to ${this.targetLanguage}.
+    private async waitForRateLimit(): Promise<void> {
+        while (Date.now() < this.rateLimitedUntil) {
+            await this.sleep(this.rateLimitedUntil - Date.now());
+        }
+    }
+
+    /**
+     * Builds the system prompt shared by structured and free-text requests
+     */
+    private buildSystemPrompt(context: string, structured: boolean): string {
+        const task = structured
+            ? `Translate each subtitle cue to ${this.targetLanguage}.`
+            : `Translate the following transcript segment to ${this.targetLanguage}.`;
+        const output = structured
+            ? `- Translate every cue on its own: do NOT merge, split, drop or summarize cues
+- A cue may end mid-sentence; translate it so it reads naturally into the next cue
+- Reply with JSON only: {"translations": [{"id": <cue id>, "text": "<translation>"}]}, exactly one entry per cue id`
+            : `- Do NOT summarize - translate everything
+- Output ONLY the translation, nothing else`;
+        const pinned = [formatGlossaryPrompt(this.glossary), formatTermPrompt(this.terms)]
+            .filter(Boolean)
+            .map(block => `\n${block}\n`)
+            .join("");
+
+        return `You are a professional subtitle translator. ${task}
 
 Context: Video "${this.videoMetadata.title}" by ${this.videoMetadata.channel}
 ${context}
-
+${pinned}
 Rules:
 - Translate naturally, as spoken language
 - Keep technical terms consistent
-- Do NOT summarize - translate everything
 - Keep the same meaning and tone
-- Output ONLY the translation, nothing else`;
+${output}`;
+    }
+
+    /**
+     * Flags cues of a translated chunk that miss an expected glossary term
+     *
+     * Checked cue by cue when the structured reply was complete, otherwise
+     * for the chunk as a whole.
+     */
+    private checkGlossary(
+        chunk: { content: string; index: number; lines?: TranscriptLine[] },
+        result: ChunkResult
+    ): GlossaryViolation[] {
+        if (this.glossary.length === 0 || !result.translation) return [];
+
+        const sourceCues = getChunkCues(chunk);
+        const pairs = result.cues && result.cues.length === sourceCues.length
+            ? result.cues.map((translation, i) => ({
+                source: sourceCues[i],
+                translation,
+                startTime: chunk.lines?.[i]?.start
+            }))
+            : [{ source: chunk.content, translation: result.translation, startTime: chunk.lines?.[0]?.start }];
+
+        return pairs.flatMap(pair => findGlossaryViolations(pair.source, pair.translation, this.glossary).map(entry => ({
+            chunkIndex: chunk.index,
+            startTime: pair.startTime,
+            source: entry.source,
+            expected: getExpectedTerm(entry),
+            translation: pair.translation
+        })));
+    }
+
+    /**
+     * Builds the context for a chunk from the chunks before it
+     *
+     * Always gives how the previous chunk's source ended, so the model knows
+     * what was just said. Under concurrency the previous chunk is often
+     * still being translated; the translation of the nearest finished chunk
+     * (within the concurrency window) is added when there is one, sharing
+     * the token budget with the source.
+     */
+    private buildContext(
+        chunks: Array<{ content: string; index: number; total: number }>,
+        results: ChunkResult[],
+        position: number
+    ): string {
+        const chunk = chunks[position];
+        const header = `This is part ${chunk.index} of ${chunk.total} of a longer transcript.`;
+        const budget = this.contextTokens;
+        if (position === 0 || budget === 0) return header;
+
+        const intro = `${header}
+The previous part ended like this (for context only, do not translate it again):`;
+        const previous = chunks[position - 1];
+
+        for (let finished = position - 1; finished >= Math.max(0, position - this.concurrency); finished--) {
+            const result = results[finished];
+            if (!result?.success || !result.translation) continue;
+
+            const label = finished === position - 1 ? "Translation" : `Translation of part ${chunks[finished].index}`;
+            return `${intro}
+Source: "${takeTail(previous.content, Math.floor(budget / 2), this.tokenCounter)}"
+${label}: "${takeTail(result.translation, Math.ceil(budget / 2), this.tokenCounter)}"`;
+        }
+
+        return `${intro}
+Source: "${takeTail(previous.content, budget, this.tokenCounter)}"`;
+    }
 
-        const messages: ChatMessage[] = [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: chunk.content }
-        ];
+    /**
+     * Translates cues as JSON, retrying only the cues missing from a reply
+     *
+     * @returns One translation per cue, or null if some cues stayed missing
+     */
+    private async translateCues(cues: string[], context: string): Promise<string[] | null> {
+        const systemPrompt = this.buildSystemPrompt(context, true);
+        const translations = new Map<number, string>();
+        let pending = cues.map((_, i) => i + 1);
+
+        for (let attempt = 0; attempt <= MAX_CUE_RETRIES && pending.length > 0; attempt++) {
+            if (attempt > 0) {
+                console.log(`[BringYourSub] ${pending.length} cue(s) missing from reply, retrying them...`);
+                this.stats.retriedCues++;
+            }
+
+            const reply = await this.callProvider([
+                { role: "system", content: systemPrompt },
+                { role: "user", content: buildCueMessage(pending.map(id => ({ id, text: cues[id - 1] }))) }
+            ], true);
+
+            const result = parseCueTranslations(reply, pending);
+            result.translations.forEach((text, id) => translations.set(id, text));
+            pending = result.missing;
+        }
 
+        return pending.length === 0 ? cues.map((_, i) => translations.get(i + 1)!) : null;
+    }
+
+    /**
+     * Translates a single chunk with error handling
+     */
+    private async translateChunk(
+        chunk: { content: string; index: number; total: number; lines?: TranscriptLine[] },
+        context: string
+    ): Promise<ChunkResult> {
         try {
-            const translation = await this.callOpenAI(messages);
+            let cues: string[] | null = null;
+            try {
+                if (!this.structuredRejected) {
+                    cues = await this.translateCues(getChunkCues(chunk), context);
+                }
+            } catch (error) {
+                // Token limits split the chunk and auth or rate limit errors
+                // would fail again; anything else (e.g. a server rejecting
+                // JSON mode) gets the free-text request
+                if (this.signal?.aborted ||
+                    (error instanceof Error && error.message === "TOKEN_LIMIT_EXCEEDED") ||
+                    (error instanceof ProviderError && (error.isAuthError || error.isRateLimit))) {
+                    throw error;
+                }
+                if (error instanceof ProviderError && error.isClientError) {
+                    this.structuredRejected = true;
+                }
+                console.log(`[BringYourSub] Structured request for chunk ${chunk.index} failed:`, error);
+            }
+
+            if (cues) {
+                return {
+                    index: chunk.index,
+                    success: true,
+                    translation: cues.filter(Boolean).join(" "),
+                    cues
+                };
+            }
+
+            // The model kept skipping cues or the request failed, translate
+            // the chunk as plain text instead
+            console.log(`[BringYourSub] Chunk ${chunk.index} falling back to free-text translation`);
+            this.stats.fallbackChunks++;
+
+            const translation = await this.callProvider([
+                { role: "system", content: this.buildSystemPrompt(context, false) },
+                { role: "user", content: chunk.content }
+            ]);
             return {
                 index: chunk.index,
                 success: true,
@@ -186,26 +449,28 @@ Rules:
             const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
             // If token limit exceeded, try with smaller chunks
-            if (errorMessage === "TOKEN_LIMIT_EXCEEDED") {
+            // (a single sentence cannot be split any further)
+            const smallerChunks = errorMessage === "TOKEN_LIMIT_EXCEEDED"
+                ? rechunkOnError({ ...chunk, estimatedDuration: 0 }, 2, this.tokenCounter)
+                : [];
+
+            if (smallerChunks.length > 1) {
                 console.log(`[BringYourSub] Token limit on chunk ${chunk.index}, splitting...`);
-                const smallerChunks = rechunkOnError({ ...chunk, estimatedDuration: 0 });
 
-                const results: string[] = [];
+                const results: ChunkResult[] = [];
                 for (const smallChunk of smallerChunks) {
-                    const result = await this.translateChunk(
-                        { content: smallChunk.content, index: smallChunk.index, total: smallChunk.total },
-                        context
-                    );
-                    if (result.success && result.translation) {
-                        results.push(result.translation);
-                    }
+                    results.push(await this.translateChunk(smallChunk, context));
                 }
 
-                if (results.length > 0) {
+                const translated = results.filter(result => result.success && result.translation);
+                if (translated.length > 0) {
+                    // Cues stay aligned only if every part came back cue by cue
+                    const allCues = translated.length === results.length && results.every(result => result.cues);
                     return {
                         index: chunk.index,
                         success: true,
-                        translation: results.join(" ")
+                        translation: translated.map(result => result.translation).join(" "),
+                        cues: allCues ? results.flatMap(result => result.cues!) : undefined
                     };
                 }
             }
@@ -221,33 +486,96 @@ Rules:
     /**
      * Runs the translation pipeline on all chunks
      * Returns SRT formatted subtitles
+     *
+     * Chunks carrying timed `lines` are placed on the source caption timeline;
+     * untimed chunks are laid out back to back using their estimated duration.
+     * After cancellation only the chunks translated so far are included and
+     * `stats.cancelled` is set.
+     *
+     * `sourceSrt` holds the source text of the cues with the same timings,
+     * so each translated cue can be shown together with its original.
      */
     async translateChunks(
-        chunks: Array<{ content: string; index: number; total: number; estimatedDuration: number }>
-    ): Promise<{ srt: string; stats: PipelineStats }> {
+        chunks: Array<{
+            content: string;
+            index: number;
+            total: number;
+            estimatedDuration: number;
+            lines?: TranscriptLine[];
+        }>
+    ): Promise<{ srt: string; sourceSrt: string; stats: PipelineStats; glossaryViolations: GlossaryViolation[] }> {
         this.stats.totalChunks = chunks.length;
-        const translations: Array<{ content: string; index: number; duration: number }> = [];
-
-        // Build context from first chunk
-        const contextSnippet = chunks[0]?.content.substring(0, 500) || "";
-        const context = `This is part of a larger transcript. First few sentences for context: "${contextSnippet}..."`;
+        const translations: Array<{
+            content: string;
+            source: string;
+            index: number;
+            duration: number;
+            lines?: TranscriptLine[];
+            cues?: string[];
+        }> = [];
+
+        // Translate with a bounded number of chunks in flight
+        const results: ChunkResult[] = new Array(chunks.length);
+        const markFinished: Array<() => void> = [];
+        const finished = chunks.map((_, position) => new Promise<void>(resolve => {
+            markFinished[position] = resolve;
+        }));
+        let nextPosition = 0;
+        let completed = 0;
+
+        this.onProgress?.(`Translating ${chunks.length} parts...`, 0, chunks.length);
+
+        const worker = async (): Promise<void> => {
+            while (nextPosition < chunks.length && !this.signal?.aborted) {
+                const position = nextPosition++;
+
+                // Sliding dependency window: a chunk starts only once the chunk
+                // `concurrency` places before it is done, so its context is recent
+                await finished[position - this.concurrency];
+                if (this.signal?.aborted) break;
+
+                const context = this.buildContext(chunks, results, position);
+                results[position] = await this.translateChunk(chunks[position], context);
+                markFinished[position]();
+
+                completed++;
+                this.onProgress?.(
+                    `Translating... ${completed}/${chunks.length} parts done`,
+                    completed,
+                    chunks.length
+                );
+            }
+        };
 
-        for (const chunk of chunks) {
-            this.onProgress?.(
-                `Translating part ${chunk.index}/${chunk.total}...`,
-                chunk.index,
-                chunk.total
-            );
+        const workerCount = Math.min(this.concurrency, chunks.length);
+        await Promise.all(Array.from({ length: workerCount }, () => worker()));
+        this.stats.cancelled = !!this.signal?.aborted;
 
-            const result = await this.translateChunk(chunk, context);
+        // Collect results in index order
+        const glossaryViolations: GlossaryViolation[] = [];
+        chunks.forEach((chunk, position) => {
+            const result = results[position];
 
-            if (result.success && result.translation) {
+            if (result?.success && result.translation) {
                 translations.push({
                     content: result.translation,
+                    source: chunk.content,
                     index: result.index,
-                    duration: chunk.estimatedDuration
+                    duration: chunk.estimatedDuration,
+                    lines: chunk.lines,
+                    cues: result.cues
                 });
                 this.stats.successfulChunks++;
+                glossaryViolations.push(...this.checkGlossary(chunk, result));
+            } else if (this.stats.cancelled) {
+                // Not translated before cancellation, leave a gap
+                translations.push({
+                    content: "",
+                    source: chunk.content,
+                    index: chunk.index,
+                    duration: chunk.estimatedDuration,
+                    lines: chunk.lines
+                });
             } else {
                 console.error(`[BringYourSub] Failed chunk ${chunk.index}: ${result.error}`);
                 this.stats.failedChunks++;
@@ -255,23 +583,51 @@ Rules:
                 // Include original text as fallback
                 translations.push({
                     content: `[Translation failed: ${chunk.content.substring(0, 100)}...]`,
+                    source: chunk.content,
                     index: chunk.index,
-                    duration: chunk.estimatedDuration
+                    duration: chunk.estimatedDuration,
+                    lines: chunk.lines
                 });
             }
-        }
+        });
 
         // Calculate timestamps
         let currentTime = 0;
-        const timedSegments: Array<{ content: string; startTime: number; endTime: number }> = [];
+        const timedSegments: TimedSegment[] = [];
 
         for (const trans of translations.sort((a, b) => a.index - b.index)) {
-            // Split translation into smaller SRT segments
-            const segments = splitIntoSRTSegments(trans.content, trans.duration);
+            if (!trans.content) {
+                currentTime += trans.duration;
+                continue;
+            }
+
+            // Anchor to the source caption times when available,
+            // cue by cue when every sentence has its own translation
+            if (trans.lines && trans.lines.length > 0) {
+                const lines = trans.lines;
+                const segments = trans.cues && trans.cues.length === lines.length
+                    ? trans.cues.flatMap((text, i) => text
+                        ? splitIntoTimedSegments(text, [lines[i]], this.chunkConfig).map(segment => ({ ...segment, source: lines[i].text }))
+                        : [])
+                    : attachSourceText(
+                        splitIntoTimedSegments(trans.content, lines, this.chunkConfig),
+                        lines.map(line => ({ content: line.text, startTime: line.start, endTime: line.start + line.duration }))
+                    );
+                timedSegments.push(...segments);
+                currentTime = segments[segments.length - 1]?.endTime ?? currentTime;
+                continue;
+            }
+
+            // Split translation into smaller SRT segments, and the source
+            // the same way to pair them by position
+            const segments = attachSourceText(
+                splitIntoSRTSegments(trans.content, trans.duration, this.chunkConfig),
+                splitIntoSRTSegments(trans.source, trans.duration, this.chunkConfig)
+            );
 
             for (const segment of segments) {
                 timedSegments.push({
-                    content: segment.content,
+                    ...segment,
                     startTime: currentTime + segment.startTime,
                     endTime: currentTime + segment.endTime
                 });
@@ -279,9 +635,13 @@ Rules:
             currentTime += trans.duration;
         }
 
-        const srt = generateSRT(timedSegments);
+        const cues = shapeCues(timedSegments, this.readingLimits);
+        const srt = generateSRT(cues);
+        const sourceSrt = generateSRT(cues
+            .filter(cue => cue.source)
+            .map(cue => ({ ...cue, content: cue.source!.replace(/\s+/g, " ").trim() })));
 
-        return { srt, stats: this.stats };
+        return { srt, sourceSrt, stats: this.stats, glossaryViolations };
     }
 
     /**
@@ -0,0 +1,114 @@
+/**
+ * SRT Parsing and Writing
+ *
+ * Reads SubRip subtitles into cues and writes cues back as SRT. Files from
+ * other tools are read leniently:
+ * - CRLF line endings, a UTF-8 byte order mark and trailing whitespace
+ * - Missing cue numbers, or missing blank lines between cues
+ * - Hours above 99 and periods instead of commas before milliseconds
+ * - Line breaks and `<i>`, `<b>`, `<u>`, `<font color>` markup are kept
+ *
+ * Cues that cannot be read are skipped and reported with their line number.
+ *
+ * @module ai-core/srt
+ */
+
+import {
+    cleanCueMarkup,
+    formatTimestamp,
+    splitIntoBlocks,
+    type SubtitleCue,
+    type SubtitleParseError,
+    type SubtitleParseResult
+} from "./subtitles.js";
+
+const TIMESTAMP = String.raw`(\d+):(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?`;
+
+/** Timing line, optionally followed by SRT display coordinates */
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP}\\s*-->\\s*${TIMESTAMP}(?:\\s+.*)?$`);
+
+const CUE_NUMBER = /^\s*\d+\s*$/;
+
+/**
+ * Parses SRT text into cues
+ */
+export function parseSRT(srtText: string): SubtitleParseResult {
+    const cues: SubtitleCue[] = [];
+    const errors: SubtitleParseError[] = [];
+
+    for (const block of splitIntoBlocks(srtText)) {
+        const { lines } = block;
+        let i = 0;
+
+        while (i < lines.length) {
+            const timingIndex = findTimingLine(lines, i);
+            if (timingIndex !== i && timingIndex !== i + 1) {
+                errors.push({ line: block.line + i, message: "Expected a cue number or timing line" });
+                break;
+            }
+
+            // Text runs until the next cue starts within the same block
+            let end = timingIndex + 1;
+            while (end < lines.length && findTimingLine(lines, end) !== end && findTimingLine(lines, end) !== end + 1) {
+                end++;
+            }
+
+            const lineNumber = block.line + timingIndex;
+            const timing = parseTimingLine(lines[timingIndex]);
+
+            if (typeof timing === "string") {
+                errors.push({ line: lineNumber, message: timing });
+            } else {
+                const text = cleanCueMarkup(lines.slice(timingIndex + 1, end).join("\n")).trim();
+                if (text) cues.push({ ...timing, text });
+            }
+
+            i = end;
+        }
+    }
+
+    return { cues, errors };
+}
+
+/**
+ * Serializes cues as SRT, numbered from 1
+ */
+export function formatSRT(cues: SubtitleCue[]): string {
+    return cues.map((cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`
+    ).join("\n");
+}
+
+/**
+ * Returns the index of the timing line of a cue starting at `start`: the
+ * line itself, or the next one after a cue number. -1 when neither is one.
+ */
+function findTimingLine(lines: string[], start: number): number {
+    if (lines[start]?.includes("-->")) return start;
+    if (CUE_NUMBER.test(lines[start]) && lines[start + 1]?.includes("-->")) return start + 1;
+    return -1;
+}
+
+/**
+ * Reads start and end time, or returns the reason the line is invalid
+ */
+function parseTimingLine(line: string): { start: number; end: number } | string {
+    const match = line.match(TIMING_LINE);
+    if (!match) return "Invalid timing line";
+
+    const start = toSeconds(match.slice(1, 5));
+    const end = toSeconds(match.slice(5, 9));
+
+    if (start === null || end === null) return "Minutes and seconds must be below 60";
+    if (end < start) return "Cue ends before it starts";
+
+    return { start, end };
+}
+
+function toSeconds([hours, minutes, seconds, fraction]: string[]): number | null {
+    const mins = parseInt(minutes, 10);
+    const secs = parseInt(seconds, 10);
+    if (mins >= 60 || secs >= 60) return null;
+
+    return parseInt(hours, 10) * 3600 + mins * 60 + secs + (fraction ? parseFloat(`0.${fraction}`) : 0);
+}
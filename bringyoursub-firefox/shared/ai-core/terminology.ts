@@ -0,0 +1,191 @@
+/**
+ * Terminology Extraction
+ *
+ * Chunks are translated independently, so a name or technical term can
+ * come out differently in every part of a long video. This optional
+ * pre-pass reads the whole transcript once, collects named entities,
+ * recurring terms and speaker names, and fixes one translation for each.
+ * The reviewed term map is then pinned into every chunk prompt.
+ *
+ * @module ai-core/terminology
+ */
+
+import type { TranslationProvider } from "./providers.js";
+import { isRecord } from "./structured.js";
+import { getTokenCounter, type TokenCounter } from "./tokenizer.js";
+
+/** What an extracted term refers to */
+export type TermKind = "entity" | "term" | "speaker";
+
+/** Term with the single translation used throughout the video */
+export interface TermEntry {
+    source: string;
+    /** Translation to use; equal to `source` for names that stay as they are */
+    target: string;
+    kind: TermKind;
+}
+
+/** Options for the extraction pass */
+export interface TerminologyOptions {
+    provider: TranslationProvider;
+    model: string;
+    targetLanguage: string;
+    videoMetadata: {
+        title: string;
+        channel: string;
+    };
+    /** Transcript tokens sent per request (default: 6000) */
+    windowTokens?: number;
+    /** Tokenizer used to size the windows (default: the model's) */
+    tokenCounter?: TokenCounter;
+    /** Maximum number of terms kept (default: 40) */
+    maxTerms?: number;
+    signal?: AbortSignal;
+}
+
+const TERM_KINDS: TermKind[] = ["entity", "term", "speaker"];
+
+/**
+ * Extracts the key terms of a transcript and picks a translation for each
+ *
+ * Long transcripts are read in windows; a term found in several windows
+ * keeps the translation from the first one and ranks higher.
+ *
+ * @throws ProviderError or Error("TOKEN_LIMIT_EXCEEDED") from the provider
+ */
+export async function extractTerminology(text: string, options: TerminologyOptions): Promise<TermEntry[]> {
+    const maxTerms = options.maxTerms ?? 40;
+    const tokenCounter = options.tokenCounter || getTokenCounter(options.model);
+    const windows = splitIntoWindows(text, options.windowTokens ?? 6000, tokenCounter);
+    const found: TermEntry[][] = [];
+
+    for (const window of windows) {
+        if (options.signal?.aborted) break;
+
+        const reply = await options.provider.complete({
+            model: options.model,
+            messages: [
+                { role: "system", content: buildExtractionPrompt(options, maxTerms) },
+                { role: "user", content: window }
+            ],
+            temperature: 0,
+            json: true,
+            signal: options.signal
+        });
+        found.push(parseTerminology(reply));
+    }
+
+    return mergeTerms(found, maxTerms);
+}
+
+/**
+ * Parses a `{"terms": [{source, target, kind}]}` reply
+ *
+ * Invalid items are skipped and a term listed twice keeps its first
+ * translation. A missing target keeps the term as it is.
+ */
+export function parseTerminology(raw: string): TermEntry[] {
+    let data: unknown;
+    try {
+        const start = raw.indexOf("{");
+        const end = raw.lastIndexOf("}");
+        data = JSON.parse(start >= 0 && end > start ? raw.slice(start, end + 1) : raw);
+    } catch {
+        return [];
+    }
+
+    const items: unknown[] = isRecord(data) && Array.isArray(data.terms) ? data.terms : [];
+    const terms: TermEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const item of items) {
+        if (!isRecord(item)) continue;
+
+        const source = typeof item.source === "string" ? item.source.trim() : "";
+        if (!source || seen.has(source.toLowerCase())) continue;
+
+        const target = typeof item.target === "string" && item.target.trim() ? item.target.trim() : source;
+        const kind: TermKind = TERM_KINDS.find(kind => kind === item.kind) ?? "term";
+
+        seen.add(source.toLowerCase());
+        terms.push({ source, target, kind });
+    }
+
+    return terms;
+}
+
+/**
+ * Combines the terms of several windows, most frequent first
+ */
+export function mergeTerms(lists: TermEntry[][], maxTerms: number): TermEntry[] {
+    const merged = new Map<string, { entry: TermEntry; count: number; order: number }>();
+
+    for (const list of lists) {
+        for (const entry of list) {
+            const key = entry.source.toLowerCase();
+            const existing = merged.get(key);
+            if (existing) {
+                existing.count++;
+            } else {
+                merged.set(key, { entry, count: 1, order: merged.size });
+            }
+        }
+    }
+
+    return [...merged.values()]
+        .sort((a, b) => b.count - a.count || a.order - b.order)
+        .slice(0, maxTerms)
+        .map(item => item.entry);
+}
+
+/**
+ * Formats the term map for the translation system prompt
+ */
+export function formatTermPrompt(terms: TermEntry[]): string {
+    if (terms.length === 0) return "";
+
+    const lines = terms.map(term => `- "${term.source}" → "${term.target}"`);
+    return `Terminology (translate these the same way in every part):\n${lines.join("\n")}`;
+}
+
+function buildExtractionPrompt(options: TerminologyOptions, maxTerms: number): string {
+    return `You are preparing a ${options.targetLanguage} translation of the transcript of the video "${options.videoMetadata.title}" by ${options.videoMetadata.channel}.
+
+Find the terms that must be translated consistently:
+- Named entities: people, companies, products, places, titles of works
+- Technical terms that recur in the transcript
+- Names of speakers
+
+Choose one ${options.targetLanguage} translation for each term. Names, brands and code identifiers that should not be translated keep their original form.
+
+Reply with JSON only, at most ${maxTerms} terms, most important first:
+{"terms": [{"source": "term as written in the transcript", "target": "translation", "kind": "entity" | "term" | "speaker"}]}`;
+}
+
+/**
+ * Splits text at whitespace into windows of at most `maxTokens` tokens
+ *
+ * A word longer than the limit gets a window of its own.
+ */
+function splitIntoWindows(text: string, maxTokens: number, tokenCounter: TokenCounter): string[] {
+    const windows: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        // One extra token for the space joining words
+        const tokens = tokenCounter.count(word) + 1;
+
+        if (currentTokens + tokens > maxTokens && current.length > 0) {
+            windows.push(current.join(" "));
+            current = [];
+            currentTokens = 0;
+        }
+
+        current.push(word);
+        currentTokens += tokens;
+    }
+
+    if (current.length > 0) windows.push(current.join(" "));
+    return windows;
+}
@@ -0,0 +1,121 @@
+/**
+ * Subtitle Timing Correction
+ *
+ * Fixes tracks that are consistently early or late, or drift because the
+ * timing does not match the video's speed. Every original time `t` is
+ * shown at `t * scale + offset`. The offset is nudged in small steps; both
+ * values can also be computed from sync points, each matching a cue's
+ * original start to the moment its line is actually spoken.
+ *
+ * @module ai-core/timing
+ */
+
+import type { SubtitleCue } from "./subtitles.js";
+
+/** Correction applied to all cue times */
+export interface TimingAdjustment {
+    /** Seconds added after scaling; positive shows subtitles later */
+    offset: number;
+    /** Factor applied to the original times */
+    scale: number;
+}
+
+/** A cue matched to the moment it is spoken */
+export interface SyncPoint {
+    /** Original start time of the cue (seconds) */
+    cueTime: number;
+    /** Video time at which the cue's line is spoken (seconds) */
+    videoTime: number;
+}
+
+/** Timing as generated */
+export const NO_TIMING_ADJUSTMENT: TimingAdjustment = { offset: 0, scale: 1 };
+
+/** Offset change of one nudge (seconds) */
+export const OFFSET_STEP = 0.1;
+
+/** Sync points closer than this (seconds) cannot measure the speed */
+const MIN_SYNC_DISTANCE = 1;
+
+/** Scales outside this range come from a mismatched cue, not a real speed difference */
+const SCALE_LIMITS = { min: 0.5, max: 2 };
+
+/**
+ * Checks whether a correction changes any time
+ */
+export function isTimingAdjusted(timing?: TimingAdjustment | null): boolean {
+    return !!timing && (timing.offset !== 0 || timing.scale !== 1);
+}
+
+/**
+ * Returns the time at which an original time is shown, never below zero
+ */
+export function adjustTime(time: number, timing: TimingAdjustment): number {
+    return Math.max(0, time * timing.scale + timing.offset);
+}
+
+/**
+ * Applies a correction to the start and end of every cue
+ */
+export function adjustCues(cues: SubtitleCue[], timing: TimingAdjustment): SubtitleCue[] {
+    if (!isTimingAdjusted(timing)) return cues;
+
+    return cues.map(cue => ({
+        ...cue,
+        start: adjustTime(cue.start, timing),
+        end: adjustTime(cue.end, timing)
+    }));
+}
+
+/**
+ * Moves subtitles later (positive) or earlier (negative) by `seconds`
+ */
+export function nudgeOffset(timing: TimingAdjustment, seconds: number): TimingAdjustment {
+    return { ...timing, offset: roundTo(timing.offset + seconds, 3) };
+}
+
+/**
+ * Computes the correction that shows cues when their lines are spoken
+ *
+ * One point shifts the offset and keeps the current scale; with two or
+ * more, the first and last point set both.
+ *
+ * @returns The correction, or the reason the points cannot be used
+ */
+export function syncTiming(
+    points: SyncPoint[],
+    current: TimingAdjustment = NO_TIMING_ADJUSTMENT
+): TimingAdjustment | string {
+    if (points.length === 0) return "Mark a cue first";
+
+    const first = points[0];
+    if (points.length === 1) {
+        return { scale: current.scale, offset: roundTo(first.videoTime - first.cueTime * current.scale, 3) };
+    }
+
+    const last = points[points.length - 1];
+    const cueDistance = last.cueTime - first.cueTime;
+    if (Math.abs(cueDistance) < MIN_SYNC_DISTANCE) {
+        return "Pick two cues that are further apart";
+    }
+
+    const scale = (last.videoTime - first.videoTime) / cueDistance;
+    if (scale < SCALE_LIMITS.min || scale > SCALE_LIMITS.max) {
+        return "The two points do not match; check that each cue was marked where its own line is spoken";
+    }
+
+    return { scale: roundTo(scale, 6), offset: roundTo(first.videoTime - first.cueTime * scale, 3) };
+}
+
+/**
+ * Describes a correction, e.g. "+0.3 s" or "-1.25 s, speed ×1.001"
+ */
+export function describeTiming(timing: TimingAdjustment): string {
+    const offset = `${timing.offset < 0 ? "-" : "+"}${Math.abs(timing.offset)} s`;
+    return timing.scale === 1 ? offset : `${offset}, speed ×${roundTo(timing.scale, 4)}`;
+}
+
+function roundTo(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
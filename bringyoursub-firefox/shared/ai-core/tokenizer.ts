@@ -0,0 +1,69 @@
+/**
+ * Token Counting
+ *
+ * Characters per token vary widely by language: English averages about
+ * four, while Turkish, Japanese, Chinese, Arabic and code can take one
+ * token per one or two characters. Chunk sizes are therefore measured with
+ * the BPE tokenizer of the model, bundled with the extension so counting
+ * works offline.
+ *
+ * @module ai-core/tokenizer
+ */
+
+import { countTokens as countO200k } from "gpt-tokenizer/encoding/o200k_base";
+import { countTokens as countCl100k } from "gpt-tokenizer/encoding/cl100k_base";
+
+/** Counts the tokens of a text for one tokenizer */
+export interface TokenCounter {
+    /** Encoding name, e.g. "o200k_base" */
+    readonly name: string;
+    count(text: string): number;
+}
+
+/**
+ * BPE merging is quadratic in the length of a run without spaces, so long
+ * texts are counted in slices cut at whitespace where possible
+ */
+const SLICE_CHARS = 2000;
+
+/** Tokenizer of GPT-4o, GPT-4.1, GPT-5 and the o-series */
+export const o200kCounter: TokenCounter = {
+    name: "o200k_base",
+    count: (text) => countInSlices(text, countO200k)
+};
+
+/** Tokenizer of GPT-4 and GPT-3.5 */
+export const cl100kCounter: TokenCounter = {
+    name: "cl100k_base",
+    count: (text) => countInSlices(text, countCl100k)
+};
+
+/**
+ * Picks the token counter for a model
+ *
+ * Anthropic, Gemini and self-hosted models use tokenizers that are not
+ * bundled; cl100k is used for them as the closer, more conservative
+ * approximation.
+ */
+export function getTokenCounter(model?: string): TokenCounter {
+    const name = (model || "").toLowerCase();
+
+    if (/^(gpt-4o|chatgpt-4o|gpt-4\.[1-9]|gpt-5|o\d)/.test(name)) {
+        return o200kCounter;
+    }
+    return cl100kCounter;
+}
+
+function countInSlices(text: string, count: (text: string) => number): number {
+    let total = 0;
+    let rest = text;
+
+    while (rest.length > SLICE_CHARS) {
+        const space = rest.lastIndexOf(" ", SLICE_CHARS);
+        const end = space > 0 ? space : SLICE_CHARS;
+        total += count(rest.slice(0, end));
+        rest = rest.slice(end);
+    }
+
+    return total + count(rest);
+}
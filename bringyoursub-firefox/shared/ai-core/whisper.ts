@@ -3,21 +3,30 @@
  * 
  * Provides robust audio transcription via OpenAI's Whisper API:
  * - File size validation (25MB limit)
+ * - Splitting of long audio into overlapping pieces
  * - Long audio detection with warnings
  * - Timestamp extraction for SRT
+ * - Self-hosted OpenAI-compatible transcription servers
  * - Error handling with helpful messages
  * 
  * @module ai-core/whisper
  */
 
+import type { TranscriptLine } from "./transcript.js";
+import { getMediaFragments, parseSegmentIndex, planAudioPieces } from "./audio.js";
+import { OPENAI_BASE_URL } from "./providers.js";
+
+/** Timed Whisper segment */
+export interface WhisperSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
 /** Whisper API response structure */
 interface WhisperResponse {
     text: string;
-    segments?: Array<{
-        start: number;
-        end: number;
-        text: string;
-    }>;
+    segments?: WhisperSegment[];
     error?: {
         message: string;
     };
@@ -29,16 +38,14 @@ interface AdaptiveFormat {
     url?: string;
     contentLength?: string;
     approxDurationMs?: string;
+    initRange?: { start: string; end: string };
+    indexRange?: { start: string; end: string };
 }
 
 /** Whisper transcription result */
 export interface WhisperResult {
     text: string;
-    segments?: Array<{
-        start: number;
-        end: number;
-        text: string;
-    }>;
+    segments?: WhisperSegment[];
     warning?: string;
     estimatedCost?: number;
 }
@@ -46,19 +53,24 @@ export interface WhisperResult {
 /** Audio info extracted from YouTube */
 interface AudioInfo {
     url: string;
+    mimeType: string;
     size: number; // bytes
     duration: number; // seconds
+    initRange?: { start: number; end: number };
+    indexRange?: { start: number; end: number };
 }
 
 const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+const PIECE_MAX_SIZE = 20 * 1024 * 1024; // headroom below the upload limit
+const PIECE_OVERLAP_SECONDS = 10;
 const WHISPER_COST_PER_MINUTE = 0.006; // $0.006 per minute
 
 /**
- * Gets audio info from YouTube video
+ * Gets the audio-only formats of a YouTube video, smallest first
  */
-async function getYouTubeAudioInfo(videoId: string): Promise<AudioInfo | null> {
+async function getYouTubeAudioFormats(videoId: string, signal?: AbortSignal): Promise<AudioInfo[] | null> {
     try {
-        const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
+        const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, { signal });
         const html = await response.text();
 
         const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?});/);
@@ -77,17 +89,20 @@ async function getYouTubeAudioInfo(videoId: string): Promise<AudioInfo | null> {
                 return sizeA - sizeB;
             });
 
-        const audioFormat = audioFormats[0];
-        if (!audioFormat?.url) return null;
+        if (audioFormats.length === 0) return null;
 
-        const size = parseInt(audioFormat.contentLength || "0", 10);
-        const duration = parseInt(audioFormat.approxDurationMs || "0", 10) / 1000;
+        const toRange = (range?: { start: string; end: string }) => range
+            ? { start: parseInt(range.start, 10), end: parseInt(range.end, 10) }
+            : undefined;
 
-        return {
-            url: audioFormat.url,
-            size,
-            duration
-        };
+        return audioFormats.map(format => ({
+            url: format.url!,
+            mimeType: format.mimeType,
+            size: parseInt(format.contentLength || "0", 10),
+            duration: parseInt(format.approxDurationMs || "0", 10) / 1000,
+            initRange: toRange(format.initRange),
+            indexRange: toRange(format.indexRange)
+        }));
     } catch (error) {
         console.error("[BringYourSub] Error getting audio info:", error);
         return null;
@@ -117,29 +132,221 @@ function formatDuration(seconds: number): string {
     return `${mins}m ${secs}s`;
 }
 
+/**
+ * Describes the length and transcription cost of audio, such as
+ * "12m 5s of audio, ~$0.073"
+ */
+export function estimateWhisperCost(seconds: number): string {
+    const cost = (seconds / 60) * WHISPER_COST_PER_MINUTE;
+    return `${formatDuration(seconds)} of audio, ~$${cost.toFixed(3)}`;
+}
+
+/**
+ * Checks whether a format can be cut into standalone pieces
+ */
+function isSplittable(audio: AudioInfo): boolean {
+    return audio.mimeType.startsWith("audio/mp4") && !!audio.initRange && !!audio.indexRange;
+}
+
+/**
+ * Adds a byte range to a YouTube media URL
+ */
+function withRange(url: string, start: number, end: number): string {
+    return `${url}&range=${start}-${end}`;
+}
+
+/**
+ * Sends one audio file to the Whisper API
+ *
+ * @param prompt - Preceding transcript text, keeps wording consistent across pieces
+ * @param baseUrl - OpenAI or a compatible server exposing `/audio/transcriptions`
+ */
+async function transcribeAudio(
+    audioBlob: Blob,
+    apiKey: string,
+    prompt?: string,
+    signal?: AbortSignal,
+    baseUrl = OPENAI_BASE_URL
+): Promise<WhisperResponse> {
+    const formData = new FormData();
+    formData.append("file", audioBlob, "audio.mp4");
+    formData.append("model", "whisper-1");
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "segment");
+    if (prompt) {
+        formData.append("prompt", prompt);
+    }
+
+    // Self-hosted servers may not need a key
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+        headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/audio/transcriptions`, {
+        signal,
+        method: "POST",
+        headers,
+        body: formData
+    });
+
+    if (!response.ok) {
+        const error: WhisperResponse = await response.json().catch(() => ({}));
+        const errorMessage = error.error?.message || "Whisper API request failed";
+
+        if (errorMessage.includes("rate limit")) {
+            throw new Error("Rate limit exceeded. Please wait a moment and try again.");
+        }
+        if (errorMessage.includes("quota")) {
+            throw new Error("API quota exceeded. Check your OpenAI billing.");
+        }
+
+        throw new Error(errorMessage);
+    }
+
+    return response.json();
+}
+
+/**
+ * Transcribes audio that is too large for a single upload
+ *
+ * The stream is cut into overlapping pieces along its fragment boundaries,
+ * each piece is transcribed separately and the segments are re-offset to
+ * the video timeline before merging.
+ */
+async function transcribeInPieces(
+    audio: AudioInfo,
+    apiKey: string,
+    onWarning?: (message: string) => void,
+    signal?: AbortSignal,
+    baseUrl = OPENAI_BASE_URL
+): Promise<{ text: string; segments: WhisperSegment[] }> {
+    const initRange = audio.initRange!;
+    const indexRange = audio.indexRange!;
+
+    // Init segment and segment index sit at the start of the stream
+    const headerResponse = await fetch(withRange(audio.url, 0, indexRange.end), { signal });
+    if (!headerResponse.ok) {
+        throw new Error("Failed to download audio from YouTube");
+    }
+    const headerBytes = await headerResponse.arrayBuffer();
+
+    const initSegment = headerBytes.slice(initRange.start, initRange.end + 1);
+    const index = parseSegmentIndex(headerBytes.slice(indexRange.start, indexRange.end + 1));
+    if (!index) {
+        throw new Error("Could not read the audio index to split this video");
+    }
+
+    const pieces = planAudioPieces(
+        getMediaFragments(index, indexRange.end),
+        PIECE_MAX_SIZE - initSegment.byteLength,
+        PIECE_OVERLAP_SECONDS
+    );
+    onWarning?.(`Long audio (${formatFileSize(audio.size)}) will be transcribed in ${pieces.length} parts.`);
+
+    const transcribed: Array<{ startTime: number; endTime: number; segments: WhisperSegment[] }> = [];
+    let prompt = "";
+
+    for (const [i, piece] of pieces.entries()) {
+        console.log(`[BringYourSub] Transcribing audio part ${i + 1}/${pieces.length}...`);
+
+        const pieceResponse = await fetch(withRange(audio.url, piece.byteStart, piece.byteEnd), { signal });
+        if (!pieceResponse.ok) {
+            throw new Error("Failed to download audio from YouTube");
+        }
+
+        const pieceBlob = new Blob(
+            [initSegment, await pieceResponse.arrayBuffer()],
+            { type: audio.mimeType.split(";")[0] }
+        );
+        const data = await transcribeAudio(pieceBlob, apiKey, prompt, signal, baseUrl);
+
+        // Whisper timestamps are relative to the start of the piece
+        transcribed.push({
+            startTime: piece.startTime,
+            endTime: piece.endTime,
+            segments: (data.segments || []).map(segment => ({
+                ...segment,
+                start: segment.start + piece.startTime,
+                end: segment.end + piece.startTime
+            }))
+        });
+        prompt = data.text.slice(-200);
+    }
+
+    const segments = mergeSegmentPieces(transcribed);
+
+    return {
+        text: segments.map(segment => segment.text.trim()).join(" "),
+        segments
+    };
+}
+
+/**
+ * Merges the segments of overlapping transcription pieces
+ *
+ * Each overlap is cut at its midpoint, and a segment is kept only by the
+ * piece whose side of the cut contains the segment's midpoint, so words in
+ * the overlap appear exactly once.
+ *
+ * @param pieces - Pieces in order, with segments already on the video timeline
+ */
+export function mergeSegmentPieces(
+    pieces: Array<{ startTime: number; endTime: number; segments: WhisperSegment[] }>
+): WhisperSegment[] {
+    const merged: WhisperSegment[] = [];
+
+    pieces.forEach((piece, i) => {
+        const previous = pieces[i - 1];
+        const next = pieces[i + 1];
+        const keepFrom = previous ? (piece.startTime + previous.endTime) / 2 : -Infinity;
+        const keepUntil = next ? (next.startTime + piece.endTime) / 2 : Infinity;
+
+        for (const segment of piece.segments) {
+            const middle = (segment.start + segment.end) / 2;
+            if (middle >= keepFrom && middle < keepUntil) {
+                merged.push(segment);
+            }
+        }
+    });
+
+    return merged;
+}
+
 /**
  * Transcribes a YouTube video using OpenAI's Whisper API
  * 
+ * Audio over the 25MB upload limit is split into pieces and transcribed
+ * part by part.
+ * 
  * @param videoId - The YouTube video ID
- * @param apiKey - OpenAI API key
+ * @param apiKey - OpenAI API key (may be empty for self-hosted servers)
  * @param onWarning - Callback for warnings (large file, cost estimate)
+ * @param signal - Aborts downloads and uploads in progress
+ * @param baseUrl - API base URL, for self-hosted OpenAI-compatible servers
  * @returns Transcription result with text and optional segments
  */
 export async function getWhisperTranscript(
     videoId: string,
     apiKey: string,
-    onWarning?: (message: string) => void
+    onWarning?: (message: string) => void,
+    signal?: AbortSignal,
+    baseUrl = OPENAI_BASE_URL
 ): Promise<WhisperResult | null> {
     try {
         // Step 1: Get audio info and validate
-        const audioInfo = await getYouTubeAudioInfo(videoId);
-        if (!audioInfo) {
+        const audioFormats = await getYouTubeAudioFormats(videoId, signal);
+        const audioInfo = audioFormats?.[0];
+        if (!audioFormats || !audioInfo) {
             throw new Error("Could not extract audio from YouTube video");
         }
 
-        // Step 2: Check file size
-        if (audioInfo.size > MAX_FILE_SIZE) {
-            const message = `Audio file too large (${formatFileSize(audioInfo.size)}). Maximum is 25MB. Try a shorter video.`;
+        // Step 2: Check file size, large audio has to be split
+        const isTooLarge = audioInfo.size > MAX_FILE_SIZE;
+        const splitAudio = isTooLarge ? audioFormats.find(isSplittable) : undefined;
+
+        if (isTooLarge && !splitAudio) {
+            const message = `Audio file too large (${formatFileSize(audioInfo.size)}) and cannot be split. Maximum is 25MB. Try a shorter video.`;
             onWarning?.(message);
             throw new Error(message);
         }
@@ -153,47 +360,25 @@ export async function getWhisperTranscript(
             onWarning?.(warning);
         }
 
-        // Step 4: Download audio
-        console.log(`[BringYourSub] Downloading audio (${formatFileSize(audioInfo.size)})...`);
-        const audioResponse = await fetch(audioInfo.url);
+        // Step 4: Download and transcribe, in pieces if needed
+        let data: { text: string; segments?: WhisperSegment[] };
 
-        if (!audioResponse.ok) {
-            throw new Error("Failed to download audio from YouTube");
-        }
-
-        const audioBlob = await audioResponse.blob();
-
-        // Step 5: Send to Whisper API with verbose output for timestamps
-        console.log("[BringYourSub] Sending to Whisper API...");
-        const formData = new FormData();
-        formData.append("file", audioBlob, "audio.mp4");
-        formData.append("model", "whisper-1");
-        formData.append("response_format", "verbose_json");
-        formData.append("timestamp_granularities[]", "segment");
-
-        const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`
-            },
-            body: formData
-        });
+        if (splitAudio) {
+            data = await transcribeInPieces(splitAudio, apiKey, onWarning, signal, baseUrl);
+        } else {
+            console.log(`[BringYourSub] Downloading audio (${formatFileSize(audioInfo.size)})...`);
+            const audioResponse = await fetch(audioInfo.url, { signal });
 
-        if (!response.ok) {
-            const error: WhisperResponse = await response.json();
-            const errorMessage = error.error?.message || "Whisper API request failed";
-
-            if (errorMessage.includes("rate limit")) {
-                throw new Error("Rate limit exceeded. Please wait a moment and try again.");
-            }
-            if (errorMessage.includes("quota")) {
-                throw new Error("API quota exceeded. Check your OpenAI billing.");
+            if (!audioResponse.ok) {
+                throw new Error("Failed to download audio from YouTube");
             }
 
-            throw new Error(errorMessage);
-        }
+            const audioBlob = await audioResponse.blob();
 
-        const data: WhisperResponse = await response.json();
+            // Step 5: Send to Whisper API with verbose output for timestamps
+            console.log("[BringYourSub] Sending to Whisper API...");
+            data = await transcribeAudio(audioBlob, apiKey, undefined, signal, baseUrl);
+        }
 
         return {
             text: data.text,
@@ -218,9 +403,7 @@ export async function getWhisperTranscript(
 /**
  * Converts Whisper segments to SRT format
  */
-export function whisperSegmentsToSRT(
-    segments: Array<{ start: number; end: number; text: string }>
-): string {
+export function whisperSegmentsToSRT(segments: WhisperSegment[]): string {
     const formatTime = (seconds: number): string => {
         const hrs = Math.floor(seconds / 3600);
         const mins = Math.floor((seconds % 3600) / 60);
@@ -233,3 +416,17 @@ export function whisperSegmentsToSRT(
         return `${index + 1}\n${formatTime(segment.start)} --> ${formatTime(segment.end)}\n${segment.text.trim()}\n`;
     }).join('\n');
 }
+
+
+/**
+ * Converts Whisper segments to timed transcript lines for the translation pipeline
+ */
+export function whisperSegmentsToTranscript(segments: WhisperSegment[]): TranscriptLine[] {
+    return segments
+        .map((segment) => ({
+            text: segment.text.trim(),
+            start: segment.start,
+            duration: Math.max(0, segment.end - segment.start)
+        }))
+        .filter((line) => line.text.length > 0);
+}
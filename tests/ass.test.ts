@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for ASS/SSA Export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createASSStyle,
+    generateASS,
+    toASSColor
+} from '../bringyoursub-chrome/shared/ai-core/ass';
+
+const cues = [
+    { start: 1, end: 2.5, text: 'First line\nSecond line' },
+    { start: 3725.456, end: 3727, text: 'Use {braces}' }
+];
+
+describe('toASSColor', () => {
+    it('should reorder channels and invert alpha', () => {
+        expect(toASSColor('#FFD500')).toBe('&H0000D5FF');
+        expect(toASSColor('#000000BF')).toBe('&H40000000');
+        expect(toASSColor('#ffffff00')).toBe('&HFFFFFFFF');
+    });
+});
+
+describe('createASSStyle', () => {
+    it('should scale the overlay font size and margin to the script resolution', () => {
+        const style = createASSStyle('Default', 'overlay', 'large', 'bottom');
+
+        expect(style.fontSize).toBe(36);
+        expect(style.alignment).toBe(2);
+        expect(style.marginV).toBe(120);
+        expect(style.borderStyle).toBe(3);
+    });
+
+    it('should place top subtitles at the top centre', () => {
+        const style = createASSStyle('Top', 'outline', 'medium', 'top');
+
+        expect(style.alignment).toBe(8);
+        expect(style.marginV).toBe(60);
+        expect(style.borderStyle).toBe(1);
+    });
+});
+
+describe('generateASS', () => {
+    it('should write script info, styles and events', () => {
+        const ass = generateASS(cues, { title: 'My Video', notes: ['Translated to German'] });
+
+        expect(ass).toContain('[Script Info]\n; Translated to German\nTitle: My Video\nScriptType: v4.00+\n');
+        expect(ass).toContain('PlayResY: 1080\n\n[V4+ Styles]\nFormat: Name, Fontname, Fontsize,');
+        expect(ass).toContain('Style: Default,Roboto,27,&H00FFFFFF,&H00FF0000,&H40000000,&H40000000,0,0,0,0,100,100,0,0,3,8,0,2,40,40,120,1\n');
+        expect(ass).toContain('[Events]\nFormat: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n');
+    });
+
+    it('should write dialogue lines with centisecond times and escaped text', () => {
+        const lines = generateASS(cues).trim().split('\n').slice(-2);
+
+        expect(lines).toEqual([
+            'Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,First line\\NSecond line',
+            'Dialogue: 0,1:02:05.46,1:02:07.00,Default,,0,0,0,,Use \\{braces\\}'
+        ]);
+    });
+
+    it('should support several named styles', () => {
+        const ass = generateASS([
+            { start: 0, end: 1, text: 'Hallo', style: 'Default' },
+            { start: 0, end: 1, text: 'Hello', style: 'Secondary' },
+            { start: 1, end: 2, text: 'Unknown style', style: 'Missing' }
+        ], {
+            styles: [
+                createASSStyle('Default'),
+                createASSStyle('Secondary', 'yellow', 'small', 'top')
+            ]
+        });
+
+        expect(ass).toContain('\nStyle: Default,');
+        expect(ass).toContain('\nStyle: Secondary,Roboto,21,&H0000D5FF,');
+        expect(ass).toContain(',Secondary,,0,0,0,,Hello\n');
+        expect(ass).toContain(',Default,,0,0,0,,Unknown style\n');
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for Audio Splitting
+ *
+ * Tests segment index parsing, piece planning and merging of
+ * transcriptions from overlapping pieces.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseSegmentIndex,
+    getMediaFragments,
+    planAudioPieces,
+    MediaFragment
+} from '../bringyoursub-chrome/shared/ai-core/audio';
+import { mergeSegmentPieces } from '../bringyoursub-chrome/shared/ai-core/whisper';
+
+/** Builds a version 0 sidx box with the given fragment sizes and durations */
+function buildSidx(references: Array<{ size: number; duration: number }>, timescale = 1000): ArrayBuffer {
+    const buffer = new ArrayBuffer(32 + references.length * 12);
+    const view = new DataView(buffer);
+
+    view.setUint32(0, buffer.byteLength);
+    'sidx'.split('').forEach((char, i) => view.setUint8(4 + i, char.charCodeAt(0)));
+    view.setUint32(12, 1); // reference ID
+    view.setUint32(16, timescale);
+    view.setUint32(20, 0); // earliest presentation time
+    view.setUint32(24, 0); // first offset
+    view.setUint16(30, references.length);
+
+    references.forEach((reference, i) => {
+        view.setUint32(32 + i * 12, reference.size);
+        view.setUint32(36 + i * 12, reference.duration);
+    });
+
+    return buffer;
+}
+
+/** Creates fragments of equal size and duration */
+function makeFragments(count: number, size: number, duration: number): MediaFragment[] {
+    return Array.from({ length: count }, (_, i) => ({
+        byteStart: i * size,
+        byteEnd: (i + 1) * size - 1,
+        startTime: i * duration,
+        duration
+    }));
+}
+
+describe('parseSegmentIndex', () => {
+    it('should read timescale and references', () => {
+        const index = parseSegmentIndex(buildSidx([
+            { size: 100, duration: 10000 },
+            { size: 200, duration: 5000 }
+        ]));
+
+        expect(index?.timescale).toBe(1000);
+        expect(index?.references).toEqual([
+            { size: 100, duration: 10000 },
+            { size: 200, duration: 5000 }
+        ]);
+    });
+
+    it('should return null for other boxes', () => {
+        const buffer = buildSidx([{ size: 1, duration: 1 }]);
+        new DataView(buffer).setUint8(4, 'm'.charCodeAt(0));
+
+        expect(parseSegmentIndex(buffer)).toBeNull();
+    });
+});
+
+describe('getMediaFragments', () => {
+    it('should place fragments right after the index range', () => {
+        const index = parseSegmentIndex(buildSidx([
+            { size: 100, duration: 10000 },
+            { size: 200, duration: 5000 }
+        ]))!;
+
+        const fragments = getMediaFragments(index, 999);
+
+        expect(fragments[0]).toEqual({ byteStart: 1000, byteEnd: 1099, startTime: 0, duration: 10 });
+        expect(fragments[1]).toEqual({ byteStart: 1100, byteEnd: 1299, startTime: 10, duration: 5 });
+    });
+});
+
+describe('planAudioPieces', () => {
+    it('should keep every piece under the size limit', () => {
+        const pieces = planAudioPieces(makeFragments(100, 1000, 10), 20000, 20);
+
+        expect(pieces.length).toBeGreaterThan(1);
+        pieces.forEach(piece => {
+            expect(piece.byteEnd - piece.byteStart + 1).toBeLessThanOrEqual(20000);
+        });
+    });
+
+    it('should cover the whole stream with overlapping pieces', () => {
+        const pieces = planAudioPieces(makeFragments(100, 1000, 10), 20000, 20);
+
+        expect(pieces[0].startTime).toBe(0);
+        expect(pieces[pieces.length - 1].endTime).toBe(1000);
+        for (let i = 1; i < pieces.length; i++) {
+            expect(pieces[i - 1].endTime - pieces[i].startTime).toBeGreaterThanOrEqual(20);
+        }
+    });
+
+    it('should return a single piece when everything fits', () => {
+        const pieces = planAudioPieces(makeFragments(10, 1000, 10), 20000, 20);
+
+        expect(pieces).toHaveLength(1);
+    });
+});
+
+describe('mergeSegmentPieces', () => {
+    it('should not duplicate or drop segments in the overlap', () => {
+        const merged = mergeSegmentPieces([
+            {
+                startTime: 0,
+                endTime: 100,
+                segments: [
+                    { start: 80, end: 88, text: 'alpha' },
+                    { start: 88, end: 96, text: 'beta' },
+                    { start: 96, end: 100, text: 'gam' }
+                ]
+            },
+            {
+                startTime: 80,
+                endTime: 200,
+                segments: [
+                    { start: 80, end: 88, text: 'lpha' },
+                    { start: 88, end: 96, text: 'beta' },
+                    { start: 96, end: 104, text: 'gamma' }
+                ]
+            }
+        ]);
+
+        expect(merged.map(segment => segment.text)).toEqual(['alpha', 'beta', 'gamma']);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for Dual (Bilingual) Subtitles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createSourceASSStyle,
+    formatBilingualSRT,
+    pairSourceCues,
+    SOURCE_STYLE_NAME,
+    toBilingualASSCues
+} from '../bringyoursub-chrome/shared/ai-core/bilingual';
+import { attachSourceText } from '../bringyoursub-chrome/shared/ai-core/chunker';
+import { shapeCues } from '../bringyoursub-chrome/shared/ai-core/cues';
+import { createASSStyle } from '../bringyoursub-chrome/shared/ai-core/ass';
+
+describe('attachSourceText', () => {
+    it('should join the source segments a segment overlaps', () => {
+        const segments = [
+            { content: 'Eins', startTime: 0, endTime: 2 },
+            { content: 'Zwei und drei', startTime: 2, endTime: 6 },
+            { content: 'Pause', startTime: 8, endTime: 9 }
+        ];
+        const source = [
+            { content: 'One', startTime: 0, endTime: 2 },
+            { content: 'Two', startTime: 2, endTime: 4 },
+            { content: 'three', startTime: 4, endTime: 6 }
+        ];
+
+        expect(attachSourceText(segments, source).map(segment => segment.source)).toEqual([
+            'One',
+            'Two three',
+            undefined
+        ]);
+    });
+});
+
+describe('shapeCues source text', () => {
+    it('should keep the source on every cue made from a segment', () => {
+        const text = 'This translation is far too long to fit into a single cue, so it has to be split into two of them.';
+        const cues = shapeCues([{ content: text, startTime: 0, endTime: 8, source: 'Original' }]);
+
+        expect(cues.length).toBeGreaterThan(1);
+        expect(cues.every(cue => cue.source === 'Original')).toBe(true);
+    });
+});
+
+describe('pairSourceCues', () => {
+    it('should pair cues with the same timing', () => {
+        const cues = [
+            { start: 0, end: 2, text: 'Hallo' },
+            { start: 2, end: 4, text: 'Welt' }
+        ];
+        const sourceCues = [{ start: 2, end: 4, text: 'world' }];
+
+        expect(pairSourceCues(cues, sourceCues)).toEqual([
+            { start: 0, end: 2, text: 'Hallo' },
+            { start: 2, end: 4, text: 'Welt', source: 'world' }
+        ]);
+    });
+});
+
+describe('formatBilingualSRT', () => {
+    const cues = [
+        { start: 0, end: 2, text: 'Hallo', source: 'Hello' },
+        { start: 2, end: 4, text: 'Welt' }
+    ];
+
+    it('should write the original below the translation', () => {
+        expect(formatBilingualSRT(cues)).toBe(
+            '1\n00:00:00,000 --> 00:00:02,000\nHallo\nHello\n\n' +
+            '2\n00:00:02,000 --> 00:00:04,000\nWelt\n'
+        );
+    });
+
+    it('should color the original text', () => {
+        expect(formatBilingualSRT(cues, '#FFD500')).toContain('Hallo\n<font color="#FFD500">Hello</font>');
+    });
+});
+
+describe('bilingual ASS', () => {
+    it('should add an event in the source style after each translated cue', () => {
+        const cues = toBilingualASSCues([
+            { start: 0, end: 2, text: 'Hallo', source: 'Hello' },
+            { start: 2, end: 4, text: 'Welt' }
+        ]);
+
+        expect(cues).toEqual([
+            { start: 0, end: 2, text: 'Hallo', source: 'Hello' },
+            { start: 0, end: 2, text: 'Hello', style: SOURCE_STYLE_NAME },
+            { start: 2, end: 4, text: 'Welt' }
+        ]);
+    });
+
+    it('should place split original text at the opposite edge', () => {
+        const primary = createASSStyle('Default', 'overlay', 'medium', 'bottom');
+        const stacked = createSourceASSStyle('overlay', 'medium', 'bottom', 'stacked', '#FFD500');
+        const split = createSourceASSStyle('overlay', 'medium', 'bottom', 'split', '#FFD500');
+
+        expect(stacked.alignment).toBe(primary.alignment);
+        expect(split.alignment).toBe(8);
+        expect(split.name).toBe(SOURCE_STYLE_NAME);
+        expect(split.primaryColor).toBe('#FFD500');
+        expect(split.fontSize).toBeLessThan(primary.fontSize);
+    });
+});
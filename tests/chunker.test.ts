@@ -11,8 +11,12 @@ import {
     rechunkOnError,
     generateSRT,
     splitIntoSRTSegments,
+    splitIntoTimedSegments,
+    groupIntoSentences,
     TranscriptChunk
 } from '../bringyoursub-chrome/shared/ai-core/chunker';
+import { TranscriptLine } from '../bringyoursub-chrome/shared/ai-core/transcript';
+import { cl100kCounter } from '../bringyoursub-chrome/shared/ai-core/tokenizer';
 
 describe('estimateTranscript', () => {
     it('should classify short video correctly', () => {
@@ -83,6 +87,55 @@ describe('chunkTranscript', () => {
 
         expect(chunks[0].estimatedDuration).toBeGreaterThan(0);
     });
+    it('should keep chunks within the token limit for non-Latin scripts', () => {
+        // About two characters per token, so chars/4 would overshoot twofold
+        const text = 'Сегодня мы поговорим о ракетах. '.repeat(40);
+        const chunks = chunkTranscript(text, 100, cl100kCounter);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => expect(cl100kCounter.count(chunk.content)).toBeLessThanOrEqual(100));
+    });
+});
+
+describe('chunkTranscript with timed lines', () => {
+    const lines: TranscriptLine[] = [
+        { text: 'Hello and welcome', start: 12, duration: 2 },
+        { text: 'to the show.', start: 14, duration: 1.5 },
+        { text: 'Today we talk about rockets.', start: 40, duration: 3 }
+    ];
+
+    it('should keep source timing on each chunk', () => {
+        const chunks = chunkTranscript(lines);
+
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].content).toBe('Hello and welcome to the show. Today we talk about rockets.');
+        expect(chunks[0].lines?.[0].start).toBe(12);
+        expect(chunks[0].estimatedDuration).toBe(31);
+    });
+
+    it('should merge caption lines into sentences', () => {
+        const sentences = groupIntoSentences(lines);
+
+        expect(sentences).toHaveLength(2);
+        expect(sentences[0]).toEqual({ text: 'Hello and welcome to the show.', start: 12, duration: 3.5 });
+        expect(sentences[1].start).toBe(40);
+    });
+
+    it('should cut unpunctuated captions at the length limit', () => {
+        const asr = Array.from({ length: 10 }, (_, i) => ({ text: 'word '.repeat(10).trim(), start: i * 3, duration: 3 }));
+        const sentences = groupIntoSentences(asr, 100);
+
+        expect(sentences.length).toBeGreaterThan(1);
+        sentences.forEach(sentence => expect(sentence.text.length).toBeLessThan(150));
+    });
+
+    it('should split timed chunks without losing timing', () => {
+        const [chunk] = chunkTranscript(lines);
+        const smaller = rechunkOnError(chunk, 2);
+
+        expect(smaller).toHaveLength(2);
+        expect(smaller[1].lines?.[0].start).toBe(40);
+    });
 });
 
 describe('rechunkOnError', () => {
@@ -114,6 +167,20 @@ describe('rechunkOnError', () => {
         expect(recombined.replace(/\s+/g, ' ')).toContain('First');
         expect(recombined.replace(/\s+/g, ' ')).toContain('Fourth');
     });
+
+    it('should split by token count rather than sentence count', () => {
+        const long = 'This sentence is much longer than all of the others together, by quite a margin indeed.';
+        const chunk: TranscriptChunk = {
+            index: 1,
+            total: 1,
+            content: `${long} One. Two. Three.`,
+            estimatedDuration: 10
+        };
+
+        const smallerChunks = rechunkOnError(chunk, 2, cl100kCounter);
+
+        expect(smallerChunks.map(c => c.content)).toEqual([long, 'One. Two. Three.']);
+    });
 });
 
 describe('generateSRT', () => {
@@ -171,6 +238,58 @@ describe('splitIntoSRTSegments', () => {
         });
     });
 
+    it('should time the text at the speaking rate without a positive duration', () => {
+        const text = 'This is sentence one. This is sentence two.';
+
+        for (const duration of [0, -5, NaN]) {
+            const segments = splitIntoSRTSegments(text, duration);
+
+            expect(segments.length).toBeGreaterThan(0);
+            segments.forEach(segment => {
+                expect(Number.isFinite(segment.startTime)).toBe(true);
+                expect(segment.endTime).toBeGreaterThan(segment.startTime);
+            });
+        }
+        expect(splitIntoSRTSegments('', 0)).toEqual([]);
+    });
+
+    it('should honor the configured target duration', () => {
+        const text = 'This is sentence one. This is sentence two. This is sentence three. This is sentence four.';
+        const timing = { targetSegmentDuration: 10, minSegmentDuration: 1, maxSegmentDuration: 12 };
+
+        expect(splitIntoSRTSegments(text, 20, timing)).toHaveLength(2);
+    });
+
+    it('should split sentences longer than the maximum duration', () => {
+        const text = 'This one sentence goes on and on without any break for a very long time indeed.';
+        const timing = { targetSegmentDuration: 3, minSegmentDuration: 1, maxSegmentDuration: 4 };
+
+        const segments = splitIntoSRTSegments(text, 12, timing);
+
+        expect(segments.length).toBeGreaterThanOrEqual(3);
+        expect(segments.map(segment => segment.content).join(' ')).toBe(text);
+        segments.forEach(segment => expect(segment.endTime - segment.startTime).toBeLessThanOrEqual(4.5));
+    });
+
+    it('should merge cues shorter than the minimum duration', () => {
+        const text = 'A long opening sentence that fills the cue. Yes.';
+        const timing = { targetSegmentDuration: 4, minSegmentDuration: 1.5, maxSegmentDuration: 7 };
+
+        const segments = splitIntoSRTSegments(text, 5, timing);
+
+        expect(segments).toHaveLength(1);
+        expect(segments[0].content).toBe(text);
+    });
+
+    it('should split translations without spaces at CJK punctuation', () => {
+        const text = '今日はロケットを作ります。まず燃料が必要です。次にエンジンです。最後に打ち上げます。';
+
+        const segments = splitIntoSRTSegments(text, 20);
+
+        expect(segments.length).toBeGreaterThan(1);
+        expect(segments[0].content.startsWith('今日はロケットを作ります。')).toBe(true);
+    });
+
     it('should cover the full duration', () => {
         const text = 'Some text content here.';
         const totalDuration = 30;
@@ -192,3 +311,35 @@ describe('splitIntoSRTSegments', () => {
         }
     });
 });
+
+describe('splitIntoTimedSegments', () => {
+    it('should anchor segments to the source caption times', () => {
+        const lines: TranscriptLine[] = [
+            { text: 'First sentence here.', start: 100, duration: 4 },
+            { text: 'Second sentence here.', start: 130, duration: 4 }
+        ];
+
+        const segments = splitIntoTimedSegments('Erster Satz hier. Zweiter Satz hier.', lines);
+
+        expect(segments[0].startTime).toBe(100);
+        expect(segments[segments.length - 1].endTime).toBe(134);
+        segments.forEach(segment => {
+            expect(segment.startTime).toBeGreaterThanOrEqual(100);
+            expect(segment.endTime).toBeLessThanOrEqual(134);
+        });
+    });
+
+    it('should not place text inside gaps between captions', () => {
+        const lines: TranscriptLine[] = [
+            { text: 'One.', start: 0, duration: 2 },
+            { text: 'Two.', start: 60, duration: 2 }
+        ];
+
+        const segments = splitIntoTimedSegments('Eins. Zwei.', lines);
+
+        segments.forEach(segment => {
+            const inGap = segment.startTime > 2 && segment.startTime < 60;
+            expect(inGap).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Chunking Configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_CHUNK_CONFIG,
+    migrateChunkConfig,
+    resolveChunkConfig,
+    validateChunkConfig
+} from '../bringyoursub-chrome/shared/ai-core/config';
+
+describe('validateChunkConfig', () => {
+    it('should accept an empty or default configuration', () => {
+        expect(validateChunkConfig({})).toEqual([]);
+        expect(validateChunkConfig({ ...DEFAULT_CHUNK_CONFIG, maxTokens: 2000 })).toEqual([]);
+    });
+
+    it('should report values outside their range', () => {
+        const errors = validateChunkConfig({ maxTokens: 50, contextTokens: -1 });
+
+        expect(errors).toEqual([
+            'Max tokens per chunk must be between 200 and 16000',
+            'Previous context must be between 0 and 2000'
+        ]);
+    });
+
+    it('should require min <= target <= max cue durations', () => {
+        expect(validateChunkConfig({ targetSegmentDuration: 8 })).toContain('Cue durations must satisfy min ≤ target ≤ max');
+        expect(validateChunkConfig({ targetSegmentDuration: 8, maxSegmentDuration: 10 })).toEqual([]);
+    });
+
+    it('should reject values that are not numbers', () => {
+        expect(validateChunkConfig({ minSegmentDuration: NaN })).toHaveLength(1);
+    });
+});
+
+describe('resolveChunkConfig', () => {
+    it('should fill in defaults and leave maxTokens unset', () => {
+        const config = resolveChunkConfig({ targetSegmentDuration: 4 });
+
+        expect(config).toEqual({ ...DEFAULT_CHUNK_CONFIG, targetSegmentDuration: 4 });
+        expect(config.maxTokens).toBeUndefined();
+    });
+
+    it('should clamp out-of-range values', () => {
+        const config = resolveChunkConfig({ maxTokens: 100000, targetSegmentDuration: 10 });
+
+        expect(config.maxTokens).toBe(16000);
+        expect(config.maxSegmentDuration).toBe(10);
+    });
+});
+
+describe('migrateChunkConfig', () => {
+    it('should read the earlier overlapTokens key as contextTokens', () => {
+        expect(migrateChunkConfig({ overlapTokens: 300, maxTokens: 2000 })).toEqual({ contextTokens: 300, maxTokens: 2000 });
+        expect(resolveChunkConfig({ overlapTokens: 300 }).contextTokens).toBe(300);
+    });
+
+    it('should prefer contextTokens when both keys are saved', () => {
+        expect(migrateChunkConfig({ overlapTokens: 300, contextTokens: 100 })).toEqual({ contextTokens: 100 });
+    });
+});
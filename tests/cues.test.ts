@@ -0,0 +1,137 @@
+/**
+ * Unit Tests for Cue Shaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    breakLines,
+    getReadingLimits,
+    READING_PRESETS,
+    shapeCues,
+    splitCueText
+} from '../bringyoursub-chrome/shared/ai-core/cues';
+
+const limits = READING_PRESETS.default;
+
+describe('breakLines', () => {
+    it('should keep short text on one line', () => {
+        expect(breakLines('Hello there, friend.', 42)).toEqual(['Hello there, friend.']);
+    });
+
+    it('should balance two lines within the line length', () => {
+        const lines = breakLines('We tested the new build yesterday evening and everything worked fine', 42);
+
+        expect(lines).toHaveLength(2);
+        lines.forEach(line => expect(line.length).toBeLessThanOrEqual(42));
+        expect(Math.abs(lines[0].length - lines[1].length)).toBeLessThan(15);
+    });
+
+    it('should prefer breaking after punctuation', () => {
+        const lines = breakLines('When the server restarts, all open connections are dropped', 42);
+
+        expect(lines[0]).toBe('When the server restarts,');
+    });
+
+    it('should not end a line with an article', () => {
+        const lines = breakLines('Please open the settings page and choose the option you need', 42);
+
+        expect(lines[0]).not.toMatch(/\b(the|a|an)$/);
+    });
+
+    it('should break text without spaces by characters', () => {
+        const lines = breakLines('今日はとても良い天気なので公園に散歩に行きました', 13);
+
+        expect(lines).toHaveLength(2);
+        expect(lines.join('')).toBe('今日はとても良い天気なので公園に散歩に行きました');
+        lines.forEach(line => expect(line.length).toBeLessThanOrEqual(13));
+    });
+});
+
+describe('splitCueText', () => {
+    it('should keep sentences together while they fit', () => {
+        expect(splitCueText('Short one. Short two.', limits)).toEqual(['Short one. Short two.']);
+    });
+
+    it('should split long text into cues of at most two lines', () => {
+        const text = 'The first sentence explains what we are going to build today. ' +
+            'The second one lists the tools, the libraries and the services we need for it. ' +
+            'The third sentence is short.';
+
+        const cues = splitCueText(text, limits);
+
+        expect(cues.length).toBeGreaterThan(1);
+        cues.forEach(cue => expect(cue.length).toBeLessThanOrEqual(84));
+        expect(cues.join(' ')).toBe(text);
+    });
+
+    it('should split an overlong sentence at clauses first', () => {
+        const text = 'If you have never used this tool before, which is perfectly fine, ' +
+            'you can follow along with the steps on screen and pause whenever you like';
+
+        const cues = splitCueText(text, limits);
+
+        expect(cues[0]).toMatch(/,$/);
+    });
+});
+
+describe('shapeCues', () => {
+    it('should wrap cue text onto balanced lines', () => {
+        const cues = shapeCues([{
+            content: 'We tested the new build yesterday evening and everything worked fine',
+            startTime: 0,
+            endTime: 5
+        }]);
+
+        expect(cues).toHaveLength(1);
+        expect(cues[0].content.split('\n')).toHaveLength(2);
+    });
+
+    it('should split a long segment and share its time by length', () => {
+        const cues = shapeCues([{
+            content: 'The first sentence explains what we are going to build today. ' +
+                'The second one lists the tools, the libraries and the services we need for it.',
+            startTime: 10,
+            endTime: 20
+        }]);
+
+        expect(cues).toHaveLength(2);
+        expect(cues[0].startTime).toBe(10);
+        expect(cues[1].endTime).toBe(20);
+        expect(cues[1].startTime - cues[0].endTime).toBeCloseTo(limits.minGap);
+    });
+
+    it('should extend cues that are too fast to read into the following silence', () => {
+        const content = 'This sentence has quite a few characters';
+        const cues = shapeCues([
+            { content, startTime: 0, endTime: 1 },
+            { content: 'Next.', startTime: 5, endTime: 6 }
+        ]);
+
+        expect(cues[0].endTime).toBeCloseTo(content.length / limits.maxCharsPerSecond);
+    });
+
+    it('should enforce minimum and maximum durations and the gap', () => {
+        const cues = shapeCues([
+            { content: 'Hi.', startTime: 0, endTime: 0.2 },
+            { content: 'Wait.', startTime: 0.5, endTime: 20 },
+            { content: 'Done.', startTime: 20, endTime: 21 }
+        ]);
+
+        expect(cues[0].endTime).toBeCloseTo(0.5 - limits.minGap);
+        expect(cues[1].endTime).toBe(0.5 + limits.maxDuration);
+        expect(cues[2].endTime - cues[2].startTime).toBe(limits.minDuration);
+    });
+});
+
+describe('getReadingLimits', () => {
+    it('should pick presets by language name or code', () => {
+        expect(getReadingLimits('Japanese')).toBe(READING_PRESETS.ja);
+        expect(getReadingLimits('Chinese (Simplified)')).toBe(READING_PRESETS.zh);
+        expect(getReadingLimits('ko-KR')).toBe(READING_PRESETS.ko);
+    });
+
+    it('should fall back to the default preset', () => {
+        expect(getReadingLimits('Turkish')).toBe(READING_PRESETS.default);
+        expect(getReadingLimits()).toBe(READING_PRESETS.default);
+    });
+});
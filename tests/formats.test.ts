@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Subtitle Format Detection and ASS Import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectSubtitleFormat, parseSubtitles } from '../bringyoursub-chrome/shared/ai-core/formats';
+import { isASS, parseASS } from '../bringyoursub-chrome/shared/ai-core/ass';
+import { formatSRT, parseSRT } from '../bringyoursub-chrome/shared/ai-core/srt';
+
+const ASS = [
+    '[Script Info]',
+    'Title: Sample',
+    'ScriptType: v4.00+',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize',
+    'Style: Default,Arial,48',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    'Dialogue: 0,0:00:05.00,0:00:07.50,Sign,,0,0,0,,Later, with commas',
+    'Dialogue: 0,0:00:01.00,0:00:03.25,Default,,0,0,0,,{\\i1}Hello{\\i0}\\Nworld',
+    'Comment: 0,0:00:08.00,0:00:09.00,Default,,0,0,0,,Not shown'
+].join('\n');
+
+describe('detectSubtitleFormat', () => {
+    it('should detect the format from the content', () => {
+        expect(detectSubtitleFormat('WEBVTT\n\n00:00.000 --> 00:01.000\nHi')).toBe('vtt');
+        expect(detectSubtitleFormat(ASS)).toBe('ass');
+        expect(detectSubtitleFormat('1\n00:00:00,000 --> 00:00:01,000\nHi')).toBe('srt');
+    });
+
+    it('should prefer the content over a wrong extension', () => {
+        expect(detectSubtitleFormat('WEBVTT\n', 'movie.srt')).toBe('vtt');
+    });
+
+    it('should fall back to the extension', () => {
+        expect(detectSubtitleFormat('', 'Movie.SSA')).toBe('ass');
+        expect(detectSubtitleFormat('', 'movie.vtt')).toBe('vtt');
+        expect(detectSubtitleFormat('hello', 'notes.txt')).toBeNull();
+    });
+});
+
+describe('parseSubtitles', () => {
+    it('should parse each format and report it', () => {
+        const result = parseSubtitles(ASS, 'sample.ass');
+
+        expect(result.format).toBe('ass');
+        expect(result.cues).toHaveLength(2);
+    });
+
+    it('should report unsupported files', () => {
+        const result = parseSubtitles('just some text');
+
+        expect(result.format).toBeNull();
+        expect(result.cues).toEqual([]);
+        expect(result.errors[0].message).toContain('Not a supported subtitle format');
+    });
+});
+
+describe('parseASS', () => {
+    it('should read dialogue lines sorted by start time', () => {
+        const { cues, errors } = parseASS(ASS);
+
+        expect(errors).toEqual([]);
+        expect(cues).toEqual([
+            { start: 1, end: 3.25, text: '<i>Hello</i>\nworld', style: 'Default' },
+            { start: 5, end: 7.5, text: 'Later, with commas', style: 'Sign' }
+        ]);
+    });
+
+    it('should follow the field order of the Format line', () => {
+        const text = '[Events]\nFormat: Start, End, Text\nDialogue: 0:00:01.00,0:00:02.00,Hi';
+
+        expect(parseASS(text).cues).toEqual([{ start: 1, end: 2, text: 'Hi' }]);
+    });
+
+    it('should keep escaped braces and drop other overrides', () => {
+        const text = '[Events]\nDialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,{\\pos(10,20)\\b1}Bold\\{not a tag\\}';
+
+        expect(parseASS(text).cues[0].text).toBe('<b>Bold{not a tag}');
+    });
+
+    it('should report invalid and reversed times with their line', () => {
+        const text = [
+            '[Events]',
+            'Dialogue: 0,soon,0:00:01.00,Default,,0,0,0,,Broken',
+            'Dialogue: 0,0:00:05.00,0:00:04.00,Default,,0,0,0,,Backwards'
+        ].join('\r\n');
+
+        expect(parseASS(text)).toEqual({
+            cues: [],
+            errors: [
+                { line: 2, message: 'Invalid time' },
+                { line: 3, message: 'Cue ends before it starts' }
+            ]
+        });
+    });
+
+    it('should recognize ASS and SSA scripts', () => {
+        expect(isASS(ASS)).toBe(true);
+        expect(isASS('Dialogue: Marked=0,0:00:01.00,0:00:02.00,*Default,,0,0,0,,Hi')).toBe(true);
+        expect(isASS('1\n00:00:00,000 --> 00:00:01,000\nHi')).toBe(false);
+    });
+});
+
+describe('formatSRT', () => {
+    it('should number cues and survive a round trip', () => {
+        const cues = [
+            { start: 0, end: 1.5, text: 'First' },
+            { start: 2, end: 3, text: 'Two\nlines' }
+        ];
+        const srt = formatSRT(cues);
+
+        expect(srt).toBe('1\n00:00:00,000 --> 00:00:01,500\nFirst\n\n2\n00:00:02,000 --> 00:00:03,000\nTwo\nlines\n');
+        expect(parseSRT(srt)).toEqual({ cues, errors: [] });
+    });
+});
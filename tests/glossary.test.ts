@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Glossary Module
+ *
+ * Tests scope selection, prompt formatting and the post-translation check.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    containsTerm,
+    findGlossaryViolations,
+    formatGlossaryPrompt,
+    selectGlossaryEntries,
+    type GlossaryEntry
+} from '../bringyoursub-chrome/shared/ai-core/glossary';
+
+describe('selectGlossaryEntries', () => {
+    const entries: GlossaryEntry[] = [
+        { source: 'pull request', target: 'Pull-Request', scope: 'global' },
+        { source: 'Pull Request', target: 'PR', scope: 'channel', scopeId: 'Fireship' },
+        { source: 'pull request', target: 'Merge-Anfrage', scope: 'video', scopeId: 'abc123' },
+        { source: 'Kubernetes', scope: 'channel', scopeId: 'Other Channel' }
+    ];
+
+    it('should skip entries scoped to other channels and videos', () => {
+        const selected = selectGlossaryEntries(entries, { videoId: 'xyz', channel: 'Someone' });
+
+        expect(selected).toEqual([entries[0]]);
+    });
+
+    it('should prefer video over channel over global entries', () => {
+        expect(selectGlossaryEntries(entries, { videoId: 'xyz', channel: 'Fireship' })[0].target).toBe('PR');
+        expect(selectGlossaryEntries(entries, { videoId: 'abc123', channel: 'Fireship' })[0].target).toBe('Merge-Anfrage');
+    });
+});
+
+describe('formatGlossaryPrompt', () => {
+    it('should mark terms without a target as untranslated', () => {
+        const prompt = formatGlossaryPrompt([
+            { source: 'useEffect', scope: 'global' },
+            { source: 'branch', target: 'Zweig', scope: 'global' }
+        ]);
+
+        expect(prompt).toContain('"useEffect" → keep as "useEffect" (do not translate)');
+        expect(prompt).toContain('"branch" → "Zweig"');
+    });
+
+    it('should return an empty string without entries', () => {
+        expect(formatGlossaryPrompt([])).toBe('');
+    });
+});
+
+describe('containsTerm', () => {
+    it('should match whole words only, ignoring case', () => {
+        expect(containsTerm('Open the Repo now', 'repo')).toBe(true);
+        expect(containsTerm('Open the repository', 'repo')).toBe(false);
+    });
+
+    it('should handle regex characters and non-Latin text', () => {
+        expect(containsTerm('Wir nutzen C++ hier', 'C++')).toBe(true);
+        expect(containsTerm('Node.js を使います', 'Node.js')).toBe(true);
+    });
+});
+
+describe('findGlossaryViolations', () => {
+    const entries: GlossaryEntry[] = [
+        { source: 'useEffect', scope: 'global' },
+        { source: 'branch', target: 'Zweig', scope: 'global' }
+    ];
+
+    it('should flag terms whose expected translation is missing', () => {
+        const missed = findGlossaryViolations(
+            'Call useEffect on this branch.',
+            'Rufe den Effekt-Hook auf diesem Zweig auf.',
+            entries
+        );
+
+        expect(missed.map(entry => entry.source)).toEqual(['useEffect']);
+    });
+
+    it('should ignore terms that do not appear in the source', () => {
+        expect(findGlossaryViolations('Hello there.', 'Hallo.', entries)).toEqual([]);
+    });
+});
@@ -0,0 +1,417 @@
+/**
+ * Unit Tests for AI Pipeline
+ *
+ * Tests chunk translation against a stubbed chat completions endpoint.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AIPipeline, PipelineOptions } from '../bringyoursub-chrome/shared/ai-core/pipeline';
+import { getTokenCounter } from '../bringyoursub-chrome/shared/ai-core/tokenizer';
+import type { ChatMessage } from '../bringyoursub-chrome/shared/ai-core/providers';
+
+/** Chat completions request body sent by the pipeline */
+type RequestBody = { messages: ChatMessage[]; response_format?: unknown };
+
+const baseOptions: PipelineOptions = {
+    apiKey: 'sk-test',
+    targetLanguage: 'German',
+    videoMetadata: { title: 'Test', channel: 'Channel' }
+};
+
+/** Echoes the user message, cue by cue for structured (JSON) requests */
+function echoTranslation(body: RequestBody, content: string): string {
+    if (!body.response_format) return `DE: ${content}`;
+
+    const { cues } = JSON.parse(content);
+    return JSON.stringify({
+        translations: cues.map((cue: { id: number; text: string }) => ({ id: cue.id, text: `DE: ${cue.text}` }))
+    });
+}
+
+/** Stubs fetch with a chat completion that echoes the user message */
+function stubChat(delayFor: (content: string) => number = () => 0) {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        const content: string = body.messages[body.messages.length - 1].content;
+
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, delayFor(content)));
+        inFlight--;
+
+        return new Response(JSON.stringify({
+            choices: [{ message: { content: echoTranslation(body, content) } }]
+        }), { status: 200 });
+    });
+
+    vi.stubGlobal('fetch', fetchMock);
+    return { fetchMock, getMaxInFlight: () => maxInFlight };
+}
+
+/** Stubs fetch with scripted replies, one per request */
+function stubReplies(replies: Array<(body: RequestBody) => string>) {
+    let call = 0;
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        const reply = replies[Math.min(call++, replies.length - 1)];
+        return new Response(JSON.stringify({
+            choices: [{ message: { content: reply(body) } }]
+        }), { status: 200 });
+    });
+
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+function sentCues(body: RequestBody): Array<{ id: number; text: string }> {
+    return JSON.parse(body.messages[body.messages.length - 1].content).cues;
+}
+
+function makeChunks(count: number) {
+    return Array.from({ length: count }, (_, i) => ({
+        index: i + 1,
+        total: count,
+        content: `Sentence ${i + 1}.`,
+        estimatedDuration: 5
+    }));
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('AIPipeline.translateChunks', () => {
+    it('should keep index order when chunks finish out of order', async () => {
+        // Earlier chunks take longer, so they complete last
+        stubChat(content => (content.includes('1.') ? 30 : 0));
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 3 });
+
+        const { srt } = await pipeline.translateChunks(makeChunks(3));
+
+        const first = srt.indexOf('DE: Sentence 1.');
+        const third = srt.indexOf('DE: Sentence 3.');
+        expect(first).toBeGreaterThanOrEqual(0);
+        expect(first).toBeLessThan(third);
+    });
+
+    it('should not exceed the concurrency limit', async () => {
+        const { getMaxInFlight } = stubChat(() => 5);
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 2 });
+
+        const { stats } = await pipeline.translateChunks(makeChunks(6));
+
+        expect(getMaxInFlight()).toBe(2);
+        expect(stats.successfulChunks).toBe(6);
+    });
+
+    it('should report completed/total progress', async () => {
+        stubChat();
+        const onProgress = vi.fn();
+        const pipeline = new AIPipeline({ ...baseOptions, onProgress });
+
+        await pipeline.translateChunks(makeChunks(4));
+
+        const last = onProgress.mock.calls[onProgress.mock.calls.length - 1];
+        expect(last[1]).toBe(4);
+        expect(last[2]).toBe(4);
+    });
+});
+
+describe('AIPipeline cancellation', () => {
+    it('should stop early and keep finished chunks', async () => {
+        const controller = new AbortController();
+        stubChat(() => 10);
+        const pipeline = new AIPipeline({
+            ...baseOptions,
+            concurrency: 1,
+            signal: controller.signal,
+            onProgress: (_message, done) => {
+                if (done === 2) controller.abort();
+            }
+        });
+
+        const { srt, stats } = await pipeline.translateChunks(makeChunks(5));
+
+        expect(stats.cancelled).toBe(true);
+        expect(stats.successfulChunks).toBe(2);
+        expect(srt).toContain('DE: Sentence 2.');
+        expect(srt).not.toContain('Sentence 3.');
+    });
+
+    it('should abort requests in flight', async () => {
+        const controller = new AbortController();
+        vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })));
+        const pipeline = new AIPipeline({ ...baseOptions, signal: controller.signal });
+
+        const pending = pipeline.translateChunks(makeChunks(2));
+        setTimeout(() => controller.abort(), 5);
+        const { stats } = await pending;
+
+        expect(stats.cancelled).toBe(true);
+        expect(stats.successfulChunks).toBe(0);
+        expect(stats.retriedChunks).toBe(0);
+    });
+});
+
+describe('AIPipeline structured translation', () => {
+    const timedChunk = {
+        index: 1,
+        total: 1,
+        content: 'One. Two. Three.',
+        estimatedDuration: 6,
+        lines: [
+            { text: 'One.', start: 0, duration: 2 },
+            { text: 'Two.', start: 2, duration: 2 },
+            { text: 'Three.', start: 10, duration: 2 }
+        ]
+    };
+
+    it('should place each cue translation on its own sentence timing', async () => {
+        stubChat();
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { srt } = await pipeline.translateChunks([timedChunk]);
+
+        expect(srt).toContain('00:00:10,000 --> 00:00:12,000\nDE: Three.');
+    });
+
+    it('should retry only the missing cue ids', async () => {
+        const fetchMock = stubReplies([
+            () => JSON.stringify({ translations: [{ id: 1, text: 'Eins.' }, { id: 3, text: 'Drei.' }] }),
+            body => JSON.stringify({ translations: sentCues(body).map(cue => ({ id: cue.id, text: 'Zwei.' })) })
+        ]);
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { srt, stats } = await pipeline.translateChunks([timedChunk]);
+
+        const retried = JSON.parse(fetchMock.mock.calls[1][1].body as string);
+        expect(sentCues(retried)).toEqual([{ id: 2, text: 'Two.' }]);
+        expect(srt).toContain('Eins.');
+        expect(srt).toContain('Zwei.');
+        expect(srt).toContain('Drei.');
+        expect(stats.fallbackChunks).toBe(0);
+        expect(stats.retriedCues).toBe(1);
+        expect(stats.retriedChunks).toBe(0);
+    });
+
+    it('should fall back to free text when cues stay missing', async () => {
+        const fetchMock = stubReplies([
+            body => body.response_format ? 'not json' : 'Eins. Zwei. Drei.'
+        ]);
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { srt, stats } = await pipeline.translateChunks([timedChunk]);
+
+        // First request plus two targeted retries, then the free-text request
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+        expect(stats.fallbackChunks).toBe(1);
+        expect(srt).toContain('Drei.');
+    });
+
+    it('should fall back to free text at once when the server rejects JSON mode', async () => {
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string);
+            if (body.response_format) {
+                return new Response(JSON.stringify({ error: { message: 'response_format is not supported' } }), { status: 400 });
+            }
+            return new Response(JSON.stringify({
+                choices: [{ message: { content: 'Eins. Zwei. Drei.' } }]
+            }), { status: 200 });
+        });
+        vi.stubGlobal('fetch', fetchMock);
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 1 });
+
+        const { srt, stats } = await pipeline.translateChunks([timedChunk, { ...timedChunk, index: 2 }]);
+
+        // One structured attempt, not retried; the second chunk skips JSON mode
+        const structured = fetchMock.mock.calls.filter(call => JSON.parse((call[1] as RequestInit).body as string).response_format);
+        expect(structured).toHaveLength(1);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(stats.retriedChunks).toBe(0);
+        expect(stats.failedChunks).toBe(0);
+        expect(stats.fallbackChunks).toBe(2);
+        expect(srt).toContain('Drei.');
+    });
+});
+
+describe('AIPipeline source text', () => {
+    const timedChunk = {
+        index: 1,
+        total: 1,
+        content: 'One. Two.',
+        estimatedDuration: 4,
+        lines: [
+            { text: 'One.', start: 0, duration: 2 },
+            { text: 'Two.', start: 2, duration: 2 }
+        ]
+    };
+
+    it('should write the source of every cue with the same timing', async () => {
+        stubChat();
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { srt, sourceSrt } = await pipeline.translateChunks([timedChunk]);
+
+        expect(srt).toContain('00:00:02,000 --> 00:00:04,000\nDE: Two.');
+        expect(sourceSrt).toContain('00:00:02,000 --> 00:00:04,000\nTwo.');
+    });
+
+    it('should pair free-text translations with the overlapping source', async () => {
+        stubReplies([
+            body => body.response_format ? 'not json' : 'Eins. Zwei.'
+        ]);
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { sourceSrt } = await pipeline.translateChunks([timedChunk]);
+
+        expect(sourceSrt).toContain('One.');
+        expect(sourceSrt).toContain('Two.');
+    });
+
+    it('should keep the source of untimed chunks', async () => {
+        stubChat();
+        const pipeline = new AIPipeline(baseOptions);
+
+        const { sourceSrt } = await pipeline.translateChunks(makeChunks(2));
+
+        expect(sourceSrt).toContain('Sentence 1.');
+        expect(sourceSrt).toContain('Sentence 2.');
+    });
+});
+
+describe('AIPipeline context carryover', () => {
+    const systemPromptOf = (call: unknown[]) => {
+        const body = JSON.parse((call[1] as RequestInit).body as string);
+        return body.messages[0].content as string;
+    };
+
+    it('should include the previous chunk and its translation', async () => {
+        const { fetchMock } = stubChat();
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 1 });
+
+        await pipeline.translateChunks(makeChunks(3));
+
+        const third = systemPromptOf(fetchMock.mock.calls[2]);
+        expect(third).toContain('Source: "Sentence 2."');
+        expect(third).toContain('Translation: "DE: Sentence 2."');
+        expect(systemPromptOf(fetchMock.mock.calls[0])).not.toContain('previous part');
+    });
+
+    it('should keep the carried text within the token budget', async () => {
+        const { fetchMock } = stubChat();
+        const longText = Array.from({ length: 200 }, (_, i) => `Sentence number ${i}.`).join(' ');
+        const chunks = [
+            { index: 1, total: 2, content: longText, estimatedDuration: 60 },
+            { index: 2, total: 2, content: 'Next.', estimatedDuration: 5 }
+        ];
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 1, contextTokens: 20 });
+
+        await pipeline.translateChunks(chunks);
+
+        const source = systemPromptOf(fetchMock.mock.calls[1]).match(/Source: "(.*)"/)![1];
+        expect(getTokenCounter().count(source)).toBeLessThanOrEqual(10);
+        expect(source.endsWith('Sentence number 199.')).toBe(true);
+    });
+
+    it('should give the previous source while that chunk is still in flight', async () => {
+        const { fetchMock } = stubChat(content => content.includes('Sentence 2') ? 30 : 0);
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 2 });
+
+        await pipeline.translateChunks(makeChunks(3));
+
+        const third = fetchMock.mock.calls.map(systemPromptOf).find(prompt => prompt.includes('part 3 of 3'))!;
+        expect(third).toContain('Source: "Sentence 2."');
+        expect(third).toContain('Translation of part 1: "DE: Sentence 1."');
+    });
+
+    it('should not start more than the window ahead of an unfinished chunk', async () => {
+        const events: string[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+            const body = JSON.parse(init.body as string);
+            const content: string = body.messages[body.messages.length - 1].content;
+            const name = content.match(/Sentence \d/)![0];
+
+            events.push(`start ${name}`);
+            await new Promise(resolve => setTimeout(resolve, name === 'Sentence 1' ? 30 : 0));
+            events.push(`end ${name}`);
+
+            return new Response(JSON.stringify({
+                choices: [{ message: { content: echoTranslation(body, content) } }]
+            }), { status: 200 });
+        }));
+        const pipeline = new AIPipeline({ ...baseOptions, concurrency: 2 });
+
+        await pipeline.translateChunks(makeChunks(4));
+
+        // Chunk 3 depends on chunk 1, two places before it
+        expect(events.indexOf('end Sentence 1')).toBeLessThan(events.indexOf('start Sentence 3'));
+    });
+});
+
+describe('AIPipeline glossary', () => {
+    const glossary = [{ source: 'useEffect', scope: 'global' as const }];
+
+    it('should add glossary rules to the system prompt', async () => {
+        const { fetchMock } = stubChat();
+        const pipeline = new AIPipeline({ ...baseOptions, glossary });
+
+        await pipeline.translateChunks(makeChunks(1));
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+        expect(body.messages[0].content).toContain('"useEffect" → keep as "useEffect"');
+    });
+
+    it('should flag cues that miss an expected term', async () => {
+        stubReplies([
+            () => JSON.stringify({ translations: [{ id: 1, text: 'Nutze den Effekt-Hook.' }, { id: 2, text: 'Nutze useEffect.' }] })
+        ]);
+        const pipeline = new AIPipeline({ ...baseOptions, glossary });
+
+        const { glossaryViolations } = await pipeline.translateChunks([{
+            index: 1,
+            total: 1,
+            content: 'Use useEffect. Use useEffect.',
+            estimatedDuration: 4,
+            lines: [
+                { text: 'Use useEffect.', start: 0, duration: 2 },
+                { text: 'Use useEffect.', start: 2, duration: 2 }
+            ]
+        }]);
+
+        expect(glossaryViolations).toEqual([{
+            chunkIndex: 1,
+            startTime: 0,
+            source: 'useEffect',
+            expected: 'useEffect',
+            translation: 'Nutze den Effekt-Hook.'
+        }]);
+    });
+});
+
+describe('AIPipeline terminology', () => {
+    it('should pin extracted terms into the prompt unless the glossary defines them', async () => {
+        const { fetchMock } = stubChat();
+        const pipeline = new AIPipeline({
+            ...baseOptions,
+            glossary: [{ source: 'Pod', target: 'Kapsel', scope: 'global' }],
+            terms: [
+                { source: 'pod', target: 'Pod', kind: 'term' },
+                { source: 'Kubernetes', target: 'Kubernetes', kind: 'entity' }
+            ]
+        });
+
+        await pipeline.translateChunks(makeChunks(2));
+
+        for (const call of fetchMock.mock.calls) {
+            const prompt = JSON.parse(call[1].body as string).messages[0].content as string;
+            expect(prompt).toContain('- "Kubernetes" → "Kubernetes"');
+            expect(prompt).toContain('- "Pod" → "Kapsel"');
+            expect(prompt).not.toContain('- "pod" → "Pod"');
+        }
+    });
+});
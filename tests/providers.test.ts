@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Translation Providers
+ *
+ * Tests request shapes and error normalization against stubbed endpoints.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    AnthropicProvider,
+    GeminiProvider,
+    OpenAICompatibleProvider,
+    OpenAIProvider,
+    ProviderError,
+    createProvider
+} from '../bringyoursub-chrome/shared/ai-core/providers';
+import { AIPipeline } from '../bringyoursub-chrome/shared/ai-core/pipeline';
+
+const messages = [
+    { role: 'system' as const, content: 'Translate to German' },
+    { role: 'user' as const, content: 'Hello' }
+];
+
+/** Stubs fetch with a single JSON response */
+function stubResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status, headers }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+function requestOf(fetchMock: ReturnType<typeof stubResponse>) {
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    return { url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible providers', () => {
+    it('should call chat completions on the configured server', async () => {
+        const fetchMock = stubResponse({ choices: [{ message: { content: 'Hallo' } }] });
+        const provider = new OpenAICompatibleProvider('', 'http://localhost:8000/v1/');
+
+        const text = await provider.complete({ model: 'llama3', messages });
+
+        const { url, headers, body } = requestOf(fetchMock);
+        expect(text).toBe('Hallo');
+        expect(url).toBe('http://localhost:8000/v1/chat/completions');
+        expect(headers['Authorization']).toBeUndefined();
+        expect(body.messages).toEqual(messages);
+    });
+
+    it('should report a reply without text content', async () => {
+        stubResponse({ choices: 'none' });
+
+        await expect(new OpenAIProvider('sk-test').complete({ model: 'gpt-4o-mini', messages }))
+            .rejects.toThrow('OpenAI returned no content');
+    });
+
+    it('should map context length errors to TOKEN_LIMIT_EXCEEDED', async () => {
+        stubResponse({ error: { message: 'Too long', code: 'context_length_exceeded' } }, 400);
+
+        await expect(new OpenAIProvider('sk-test').complete({ model: 'gpt-4o-mini', messages }))
+            .rejects.toThrow('TOKEN_LIMIT_EXCEEDED');
+    });
+
+    it('should report rate limits with retry-after', async () => {
+        stubResponse({ error: { message: 'Slow down' } }, 429, { 'retry-after': '2' });
+
+        const error = await new OpenAIProvider('sk-test')
+            .complete({ model: 'gpt-4o-mini', messages })
+            .catch(e => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.isRateLimit).toBe(true);
+        expect(error.retryAfter).toBe(2);
+    });
+});
+
+describe('AnthropicProvider', () => {
+    it('should send the system prompt separately and join text blocks', async () => {
+        const fetchMock = stubResponse({ content: [{ type: 'text', text: 'Hal' }, { type: 'text', text: 'lo' }] });
+
+        const text = await new AnthropicProvider('key').complete({ model: 'claude-3-5-haiku-latest', messages });
+
+        const { headers, body } = requestOf(fetchMock);
+        expect(text).toBe('Hallo');
+        expect(headers['x-api-key']).toBe('key');
+        expect(body.system).toBe('Translate to German');
+        expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    });
+
+    it('should map authentication errors', async () => {
+        stubResponse({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }, 401);
+
+        const error = await new AnthropicProvider('bad').complete({ model: 'm', messages }).catch(e => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.isAuthError).toBe(true);
+        expect(error.message).toContain('Invalid API');
+    });
+});
+
+describe('GeminiProvider', () => {
+    it('should map roles and read candidate parts', async () => {
+        const fetchMock = stubResponse({ candidates: [{ content: { parts: [{ text: 'Hallo' }] } }] });
+
+        const text = await new GeminiProvider('key').complete({ model: 'gemini-2.0-flash', messages });
+
+        const { url, body } = requestOf(fetchMock);
+        expect(text).toBe('Hallo');
+        expect(url).toContain('/models/gemini-2.0-flash:generateContent');
+        expect(body.systemInstruction.parts[0].text).toBe('Translate to German');
+        expect(body.contents).toEqual([{ role: 'user', parts: [{ text: 'Hello' }] }]);
+    });
+
+    it('should treat an invalid key reported as 400 as an auth error', async () => {
+        stubResponse({ error: { code: 400, message: 'API key not valid. Please pass a valid API key.' } }, 400);
+
+        const error = await new GeminiProvider('bad').complete({ model: 'm', messages }).catch(e => e);
+
+        expect(error.isAuthError).toBe(true);
+    });
+});
+
+describe('createProvider', () => {
+    it('should build the configured provider', () => {
+        expect(createProvider({ id: 'anthropic', apiKey: 'k' })).toBeInstanceOf(AnthropicProvider);
+        expect(createProvider({ id: 'gemini', apiKey: 'k' })).toBeInstanceOf(GeminiProvider);
+        expect(createProvider({ id: 'openai', apiKey: 'k' }).id).toBe('openai');
+    });
+});
+
+describe('AIPipeline with a provider', () => {
+    it('should not retry authentication errors', async () => {
+        const fetchMock = stubResponse({ error: { type: 'authentication_error', message: 'bad key' } }, 401);
+        const pipeline = new AIPipeline({
+            apiKey: '',
+            provider: new AnthropicProvider('bad'),
+            targetLanguage: 'German',
+            videoMetadata: { title: 'Test', channel: 'Channel' }
+        });
+
+        const { stats } = await pipeline.translateChunks([
+            { index: 1, total: 1, content: 'Hello.', estimatedDuration: 5 }
+        ]);
+
+        expect(stats.failedChunks).toBe(1);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
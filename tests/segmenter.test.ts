@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Sentence Segmentation
+ *
+ * Runs every case with Intl.Segmenter and with the punctuation fallback.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    endsSentence,
+    groupIntoSentences,
+    splitSentences
+} from '../bringyoursub-chrome/shared/ai-core/segmenter';
+import { TranscriptLine } from '../bringyoursub-chrome/shared/ai-core/transcript';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const runtimes = [
+    { name: 'Intl.Segmenter', setup: () => { } },
+    {
+        name: 'fallback scanner',
+        setup: () => {
+            const { Segmenter: _, ...withoutSegmenter } = Intl as typeof Intl & { Segmenter: unknown };
+            vi.stubGlobal('Intl', withoutSegmenter);
+        }
+    }
+];
+
+describe.each(runtimes)('splitSentences ($name)', ({ setup }) => {
+    it('should split at CJK, Arabic and Hindi punctuation', () => {
+        setup();
+
+        expect(splitSentences('今日は晴れです。明日は雨！本当？')).toEqual(['今日は晴れです。', '明日は雨！', '本当？']);
+        expect(splitSentences('هل أنت بخير؟ نعم.')).toEqual(['هل أنت بخير؟', 'نعم.']);
+        expect(splitSentences('यह अच्छा है। वह भी।')).toEqual(['यह अच्छा है।', 'वह भी।']);
+    });
+
+    it('should keep decimals and URLs intact', () => {
+        setup();
+
+        expect(splitSentences('It costs 3.5 dollars. Visit example.com today!')).toEqual([
+            'It costs 3.5 dollars.',
+            'Visit example.com today!'
+        ]);
+    });
+
+    it('should not split after abbreviations and initials', () => {
+        setup();
+
+        expect(splitSentences('Dr. Smith uses e.g. React. J. K. Rowling agrees.')).toEqual([
+            'Dr. Smith uses e.g. React.',
+            'J. K. Rowling agrees.'
+        ]);
+    });
+
+    it('should keep an ellipsis followed by lowercase in one sentence', () => {
+        setup();
+
+        expect(splitSentences('Wait... what happened? Nothing.')).toEqual(['Wait... what happened?', 'Nothing.']);
+    });
+
+    it('should split after the pronoun I', () => {
+        setup();
+
+        expect(splitSentences('So did I. Then we left.')).toEqual(['So did I.', 'Then we left.']);
+    });
+});
+
+describe('endsSentence', () => {
+    it('should detect sentence ends but not abbreviations', () => {
+        expect(endsSentence('to the show.')).toBe(true);
+        expect(endsSentence('本当？')).toBe(true);
+        expect(endsSentence('He said "stop."')).toBe(true);
+        expect(endsSentence('talk to Dr.')).toBe(false);
+        expect(endsSentence('and then')).toBe(false);
+    });
+
+    it('should use the abbreviations of the given language', () => {
+        expect(endsSentence('Wir nehmen z.B.', 'de')).toBe(false);
+        expect(endsSentence('Das ist gut. Usw.', 'en')).toBe(true);
+    });
+});
+
+describe('groupIntoSentences', () => {
+    it('should split unpunctuated auto-captions at pauses', () => {
+        const lines: TranscriptLine[] = [
+            { text: 'so today we are', start: 0, duration: 1.5 },
+            { text: 'going to build a rocket', start: 1.5, duration: 2 },
+            { text: 'first we need fuel', start: 4.5, duration: 2 },
+            { text: 'and an engine', start: 6.5, duration: 1.5 }
+        ];
+
+        const sentences = groupIntoSentences(lines);
+
+        expect(sentences.map(sentence => sentence.text)).toEqual([
+            'so today we are going to build a rocket',
+            'first we need fuel and an engine'
+        ]);
+        expect(sentences[1].start).toBe(4.5);
+    });
+
+    it('should ignore pauses in punctuated captions', () => {
+        const lines: TranscriptLine[] = [
+            { text: 'Hello and', start: 0, duration: 1 },
+            { text: 'welcome.', start: 3, duration: 1 }
+        ];
+
+        expect(groupIntoSentences(lines)).toHaveLength(1);
+    });
+});
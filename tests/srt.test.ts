@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for SRT Parsing and Cue Markup
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSRT } from '../bringyoursub-chrome/shared/ai-core/srt';
+import { generateSRT } from '../bringyoursub-chrome/shared/ai-core/chunker';
+import {
+    cleanCueMarkup,
+    parseCueMarkup,
+    stripCueMarkup
+} from '../bringyoursub-chrome/shared/ai-core/subtitles';
+
+describe('parseSRT', () => {
+    it('should read back generated SRT', () => {
+        const srt = generateSRT([
+            { content: 'First\nline', startTime: 0, endTime: 2.5 },
+            { content: 'Second', startTime: 3, endTime: 4.25 }
+        ]);
+
+        expect(parseSRT(srt)).toEqual({
+            cues: [
+                { start: 0, end: 2.5, text: 'First\nline' },
+                { start: 3, end: 4.25, text: 'Second' }
+            ],
+            errors: []
+        });
+    });
+
+    it('should accept CRLF line endings, a BOM and trailing whitespace', () => {
+        const srt = '\uFEFF1 \r\n00:00:01,000 --> 00:00:02,000  \r\nHello  \r\nworld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n';
+
+        expect(parseSRT(srt).cues).toEqual([
+            { start: 1, end: 2, text: 'Hello\nworld' },
+            { start: 3, end: 4, text: 'Bye' }
+        ]);
+    });
+
+    it('should accept missing cue numbers and blank lines between cues', () => {
+        const srt = '00:00:01,000 --> 00:00:02,000\nNo number\n2\n00:00:03,000 --> 00:00:04,000\nNo blank line\n00:00:05,000 --> 00:00:06,000\nNeither';
+
+        expect(parseSRT(srt).cues.map(cue => cue.text)).toEqual(['No number', 'No blank line', 'Neither']);
+    });
+
+    it('should accept long hours, periods and coordinates', () => {
+        const srt = '1\n123:00:00.5 --> 123:00:01.250 X1:10 X2:100 Y1:10 Y2:50\nLate\n';
+
+        expect(parseSRT(srt).cues).toEqual([{ start: 442800.5, end: 442801.25, text: 'Late' }]);
+    });
+
+    it('should report invalid cues with their line number and keep the rest', () => {
+        const srt = [
+            '1', '00:00:01,000 --> 00:00:02,000', 'Good', '',
+            'Stray text', '',
+            '3', '00:00:05,000 --> later', 'Bad timing', '',
+            '4', '00:00:08,000 --> 00:00:07,000', 'Backwards', '',
+            '5', '00:61:00,000 --> 00:62:00,000', 'Bad minutes', ''
+        ].join('\n');
+
+        const { cues, errors } = parseSRT(srt);
+
+        expect(cues).toEqual([{ start: 1, end: 2, text: 'Good' }]);
+        expect(errors).toEqual([
+            { line: 5, message: 'Expected a cue number or timing line' },
+            { line: 8, message: 'Invalid timing line' },
+            { line: 12, message: 'Cue ends before it starts' },
+            { line: 16, message: 'Minutes and seconds must be below 60' }
+        ]);
+    });
+
+    it('should keep basic markup and drop other tags', () => {
+        const srt = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Hi</i> <font color="#ff0">there</font><script>x</script>\n';
+
+        expect(parseSRT(srt).cues[0].text).toBe('<i>Hi</i> <font color="#ff0">there</font>x');
+    });
+
+    it('should return no cues for text without subtitles', () => {
+        expect(parseSRT('')).toEqual({ cues: [], errors: [] });
+        expect(parseSRT('just some text').cues).toEqual([]);
+    });
+});
+
+describe('cue markup', () => {
+    it('should split text into styled runs', () => {
+        expect(parseCueMarkup('Plain <b>bold <i>both</i></b> <font color="red">red</font>')).toEqual([
+            { text: 'Plain ' },
+            { text: 'bold ', bold: true },
+            { text: 'both', bold: true, italic: true },
+            { text: ' ' },
+            { text: 'red', color: 'red' }
+        ]);
+    });
+
+    it('should apply unclosed tags to the end and ignore stray closing tags', () => {
+        expect(parseCueMarkup('</b><u>under\nline')).toEqual([{ text: 'under\nline', underline: true }]);
+    });
+
+    it('should drop unsafe colors', () => {
+        expect(parseCueMarkup('<font color="url(x)">text</font>')).toEqual([{ text: 'text' }]);
+    });
+
+    it('should clean and strip markup', () => {
+        expect(cleanCueMarkup('<v Bob>{\\b1}<B>Hi</B></v>')).toBe('<B>Hi</B>');
+        expect(stripCueMarkup('<i>Hi</i> <font color="red">you</font>')).toBe('Hi you');
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for Structured Cue Translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getChunkCues, parseCueTranslations } from '../bringyoursub-chrome/shared/ai-core/structured';
+
+describe('parseCueTranslations', () => {
+    it('should accept one translation per id', () => {
+        const reply = '{"translations": [{"id": 1, "text": "Eins"}, {"id": 2, "text": " Zwei "}]}';
+
+        const { translations, missing } = parseCueTranslations(reply, [1, 2]);
+
+        expect(translations.get(1)).toBe('Eins');
+        expect(translations.get(2)).toBe('Zwei');
+        expect(missing).toEqual([]);
+    });
+
+    it('should report missing and duplicated ids', () => {
+        const reply = JSON.stringify({
+            translations: [
+                { id: 1, text: 'Eins' },
+                { id: 2, text: 'Zwei' },
+                { id: 2, text: 'Zwei und Drei' }
+            ]
+        });
+
+        const { translations, missing } = parseCueTranslations(reply, [1, 2, 3]);
+
+        expect([...translations.keys()]).toEqual([1]);
+        expect(missing).toEqual([2, 3]);
+    });
+
+    it('should ignore ids that were not sent', () => {
+        const { translations } = parseCueTranslations('[{"id": 7, "text": "Sieben"}]', [1]);
+        expect(translations.size).toBe(0);
+    });
+
+    it('should read JSON wrapped in a code fence', () => {
+        const reply = '```json\n{"translations": [{"id": "1", "text": "Eins"}]}\n```';
+        expect(parseCueTranslations(reply, [1]).missing).toEqual([]);
+    });
+
+    it('should treat invalid JSON as all missing', () => {
+        expect(parseCueTranslations('Eins, Zwei', [1, 2]).missing).toEqual([1, 2]);
+    });
+
+    it('should skip items that are not objects', () => {
+        const { translations, missing } = parseCueTranslations('[null, 5, "Eins", {"id": 2, "text": "Zwei"}]', [1, 2]);
+
+        expect(translations.get(2)).toBe('Zwei');
+        expect(missing).toEqual([1]);
+    });
+});
+
+describe('getChunkCues', () => {
+    it('should use timed sentences as cues', () => {
+        const cues = getChunkCues({
+            content: 'Hello there. Bye.',
+            lines: [
+                { text: 'Hello there.', start: 0, duration: 1 },
+                { text: 'Bye.', start: 1, duration: 1 }
+            ]
+        });
+        expect(cues).toEqual(['Hello there.', 'Bye.']);
+    });
+
+    it('should split untimed content into sentences', () => {
+        expect(getChunkCues({ content: 'One. Two? Three' })).toEqual(['One.', 'Two?', 'Three']);
+    });
+});
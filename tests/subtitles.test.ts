@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for Cue Lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findCueAt } from '../bringyoursub-chrome/shared/ai-core/subtitles';
+
+describe('findCueAt', () => {
+    const cues = [
+        { start: 1, end: 3, text: 'One' },
+        { start: 3, end: 4, text: 'Two' },
+        { start: 6, end: 8, text: 'Three' }
+    ];
+
+    it('should return no cue and the first start before the first cue', () => {
+        expect(findCueAt(cues, 0)).toEqual({ cue: null, nextChange: 1 });
+    });
+
+    it('should find the cue shown at a time and when it ends', () => {
+        expect(findCueAt(cues, 2)).toEqual({ cue: cues[0], nextChange: 3 });
+        expect(findCueAt(cues, 7)).toEqual({ cue: cues[2], nextChange: 8 });
+    });
+
+    it('should switch to the next cue on a shared boundary', () => {
+        expect(findCueAt(cues, 3).cue).toBe(cues[1]);
+    });
+
+    it('should return the next start in a gap', () => {
+        expect(findCueAt(cues, 5)).toEqual({ cue: null, nextChange: 6 });
+    });
+
+    it('should change at the next start when cues overlap', () => {
+        const overlapping = [
+            { start: 0, end: 5, text: 'Long' },
+            { start: 2, end: 3, text: 'Short' }
+        ];
+
+        expect(findCueAt(overlapping, 1)).toEqual({ cue: overlapping[0], nextChange: 2 });
+        expect(findCueAt(overlapping, 2.5).cue).toBe(overlapping[1]);
+    });
+
+    it('should report no further change after the last cue', () => {
+        expect(findCueAt(cues, 9)).toEqual({ cue: null, nextChange: null });
+        expect(findCueAt([], 1)).toEqual({ cue: null, nextChange: null });
+    });
+});
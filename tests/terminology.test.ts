@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Terminology Extraction
+ *
+ * Tests reply parsing, window merging and the extraction pass against a
+ * scripted provider.
+ */
+
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import {
+    extractTerminology,
+    formatTermPrompt,
+    mergeTerms,
+    parseTerminology
+} from '../bringyoursub-chrome/shared/ai-core/terminology';
+import type { CompletionRequest, TranslationProvider } from '../bringyoursub-chrome/shared/ai-core/providers';
+import type { TokenCounter } from '../bringyoursub-chrome/shared/ai-core/tokenizer';
+
+/** Counts four tokens per word */
+const wordCounter: TokenCounter = {
+    name: 'words',
+    count: text => 4 * text.split(/\s+/).filter(Boolean).length
+};
+
+/** Provider that answers each request with the next scripted reply */
+function scriptedProvider(replies: string[]): TranslationProvider & { complete: Mock<[CompletionRequest], Promise<string>> } {
+    let call = 0;
+    return {
+        id: 'openai',
+        name: 'Test',
+        complete: vi.fn(async (_request: CompletionRequest) => replies[Math.min(call++, replies.length - 1)])
+    };
+}
+
+describe('parseTerminology', () => {
+    it('should read terms and default missing targets and kinds', () => {
+        const terms = parseTerminology('```json\n{"terms": [' +
+            '{"source": "Kubernetes", "kind": "entity"},' +
+            '{"source": "pod", "target": "Pod", "kind": "unknown"}' +
+            ']}\n```');
+
+        expect(terms).toEqual([
+            { source: 'Kubernetes', target: 'Kubernetes', kind: 'entity' },
+            { source: 'pod', target: 'Pod', kind: 'term' }
+        ]);
+    });
+
+    it('should skip invalid items and duplicates', () => {
+        const terms = parseTerminology(JSON.stringify({
+            terms: [{ source: 'Alice', target: 'Alice', kind: 'speaker' }, { source: 'alice', target: 'Alicia' }, { target: 'x' }, 'text']
+        }));
+
+        expect(terms).toEqual([{ source: 'Alice', target: 'Alice', kind: 'speaker' }]);
+    });
+
+    it('should return no terms for malformed replies', () => {
+        expect(parseTerminology('Sorry, I cannot help with that.')).toEqual([]);
+        expect(parseTerminology('{"terms": {"source": "Alice"}}')).toEqual([]);
+        expect(parseTerminology('{"terms": [null, {"source": "Bob", "kind": 3}]}')).toEqual([{ source: 'Bob', target: 'Bob', kind: 'term' }]);
+    });
+});
+
+describe('mergeTerms', () => {
+    it('should keep the first translation and rank terms found more often first', () => {
+        const merged = mergeTerms([
+            [{ source: 'cluster', target: 'Cluster', kind: 'term' }, { source: 'node', target: 'Knoten', kind: 'term' }],
+            [{ source: 'Node', target: 'Node', kind: 'term' }]
+        ], 10);
+
+        expect(merged).toEqual([
+            { source: 'node', target: 'Knoten', kind: 'term' },
+            { source: 'cluster', target: 'Cluster', kind: 'term' }
+        ]);
+    });
+
+    it('should cap the number of terms', () => {
+        const list = Array.from({ length: 5 }, (_, i) => ({ source: `t${i}`, target: `t${i}`, kind: 'term' as const }));
+
+        expect(mergeTerms([list], 3)).toHaveLength(3);
+    });
+});
+
+describe('extractTerminology', () => {
+    const options = {
+        model: 'gpt-4o-mini',
+        targetLanguage: 'German',
+        videoMetadata: { title: 'Intro to Kubernetes', channel: 'DevOps Channel' },
+        tokenCounter: wordCounter
+    };
+
+    it('should read long transcripts in windows of tokens and merge the results', async () => {
+        const provider = scriptedProvider([
+            JSON.stringify({ terms: [{ source: 'Kubernetes', target: 'Kubernetes', kind: 'entity' }] }),
+            JSON.stringify({ terms: [{ source: 'pod', target: 'Pod', kind: 'term' }, { source: 'Kubernetes', target: 'K8s', kind: 'entity' }] })
+        ]);
+        const text = 'word '.repeat(30).trim();
+
+        // 20 words of 5 tokens each (with the joining space) fit in a window
+        const terms = await extractTerminology(text, { ...options, provider, windowTokens: 100 });
+
+        expect(provider.complete).toHaveBeenCalledTimes(2);
+        expect(provider.complete.mock.calls[0][0].messages[1].content).toBe('word '.repeat(20).trim());
+        expect(provider.complete.mock.calls[0][0].json).toBe(true);
+        expect(terms).toEqual([
+            { source: 'Kubernetes', target: 'Kubernetes', kind: 'entity' },
+            { source: 'pod', target: 'Pod', kind: 'term' }
+        ]);
+    });
+
+    it('should stop reading windows once cancelled', async () => {
+        const controller = new AbortController();
+        const provider = scriptedProvider(['{"terms": []}']);
+        provider.complete.mockImplementation(async () => {
+            controller.abort();
+            return '{"terms": []}';
+        });
+
+        await extractTerminology('word '.repeat(100), { ...options, provider, windowTokens: 50, signal: controller.signal });
+
+        expect(provider.complete).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('formatTermPrompt', () => {
+    it('should list every term with its translation', () => {
+        expect(formatTermPrompt([{ source: 'pod', target: 'Pod', kind: 'term' }])).toContain('- "pod" → "Pod"');
+        expect(formatTermPrompt([])).toBe('');
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Subtitle Timing Correction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    adjustCues,
+    describeTiming,
+    NO_TIMING_ADJUSTMENT,
+    nudgeOffset,
+    syncTiming
+} from '../bringyoursub-chrome/shared/ai-core/timing';
+
+const cues = [
+    { start: 1, end: 2, text: 'First', source: 'Erste' },
+    { start: 10, end: 12, text: 'Second' }
+];
+
+describe('adjustCues', () => {
+    it('should scale and shift every cue, keeping its other fields', () => {
+        expect(adjustCues(cues, { offset: 0.5, scale: 2 })).toEqual([
+            { start: 2.5, end: 4.5, text: 'First', source: 'Erste' },
+            { start: 20.5, end: 24.5, text: 'Second' }
+        ]);
+    });
+
+    it('should not move cues before the start of the video', () => {
+        expect(adjustCues(cues, { offset: -1.5, scale: 1 })[0]).toMatchObject({ start: 0, end: 0.5 });
+    });
+
+    it('should return the cues unchanged without a correction', () => {
+        expect(adjustCues(cues, NO_TIMING_ADJUSTMENT)).toBe(cues);
+    });
+});
+
+describe('nudgeOffset', () => {
+    it('should add steps without floating point drift', () => {
+        let timing = NO_TIMING_ADJUSTMENT;
+        for (let i = 0; i < 3; i++) timing = nudgeOffset(timing, 0.1);
+
+        expect(timing).toEqual({ offset: 0.3, scale: 1 });
+        expect(nudgeOffset(timing, -0.4)).toEqual({ offset: -0.1, scale: 1 });
+    });
+});
+
+describe('syncTiming', () => {
+    it('should set the offset from one point and keep the current speed', () => {
+        expect(syncTiming([{ cueTime: 10, videoTime: 12.5 }])).toEqual({ offset: 2.5, scale: 1 });
+        expect(syncTiming([{ cueTime: 10, videoTime: 12.5 }], { offset: 0, scale: 1.1 })).toEqual({ offset: 1.5, scale: 1.1 });
+    });
+
+    it('should set the offset and speed from two points', () => {
+        const timing = syncTiming([
+            { cueTime: 10, videoTime: 11 },
+            { cueTime: 110, videoTime: 115 }
+        ]);
+
+        expect(timing).toEqual({ offset: 0.6, scale: 1.04 });
+    });
+
+    it('should reject points that cannot be used', () => {
+        expect(syncTiming([])).toBe('Mark a cue first');
+        expect(syncTiming([{ cueTime: 10, videoTime: 11 }, { cueTime: 10.5, videoTime: 20 }]))
+            .toBe('Pick two cues that are further apart');
+        expect(syncTiming([{ cueTime: 10, videoTime: 11 }, { cueTime: 20, videoTime: 80 }]))
+            .toContain('The two points do not match');
+    });
+});
+
+describe('describeTiming', () => {
+    it('should show the offset and a changed speed', () => {
+        expect(describeTiming(NO_TIMING_ADJUSTMENT)).toBe('+0 s');
+        expect(describeTiming({ offset: 0.3, scale: 1 })).toBe('+0.3 s');
+        expect(describeTiming({ offset: -1.25, scale: 1.00104 })).toBe('-1.25 s, speed ×1.001');
+    });
+});
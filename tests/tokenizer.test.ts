@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for Token Counting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    cl100kCounter,
+    getTokenCounter,
+    o200kCounter
+} from '../bringyoursub-chrome/shared/ai-core/tokenizer';
+import { countTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+
+describe('getTokenCounter', () => {
+    it('should use o200k for GPT-4o and newer OpenAI models', () => {
+        expect(getTokenCounter('gpt-4o-mini')).toBe(o200kCounter);
+        expect(getTokenCounter('gpt-4.1')).toBe(o200kCounter);
+        expect(getTokenCounter('o3-mini')).toBe(o200kCounter);
+    });
+
+    it('should fall back to cl100k for other models', () => {
+        expect(getTokenCounter('gpt-4-turbo')).toBe(cl100kCounter);
+        expect(getTokenCounter('claude-3-5-haiku-latest')).toBe(cl100kCounter);
+        expect(getTokenCounter()).toBe(cl100kCounter);
+    });
+});
+
+describe('TokenCounter', () => {
+    it('should count BPE tokens', () => {
+        expect(cl100kCounter.count('hello world')).toBe(2);
+        expect(o200kCounter.count('hello world')).toBe(2);
+    });
+
+    it('should count far more than chars/4 for Japanese', () => {
+        const text = '今日はロケットについて話します。';
+
+        expect(cl100kCounter.count(text)).toBeGreaterThan(text.length / 2);
+    });
+
+    it('should count long texts in slices without changing the result', () => {
+        const text = 'This is a sentence with some content. '.repeat(200);
+
+        expect(cl100kCounter.count(text)).toBe(countTokens(text));
+    });
+
+    it('should stay fast on long runs without spaces', () => {
+        const started = Date.now();
+        cl100kCounter.count('A'.repeat(60000));
+
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
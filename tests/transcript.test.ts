@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Transcript Module
+ *
+ * Tests conversion of YouTube json3 caption events into timed lines
+ * and caption track selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseTranscriptEvents,
+    transcriptToText,
+    selectCaptionTrack,
+    describeCaptionTracks,
+    getCaptionTracks,
+    getVideoDuration,
+    parsePlayerResponse,
+    CaptionTrack
+} from '../bringyoursub-chrome/shared/ai-core/transcript';
+
+describe('parseTranscriptEvents', () => {
+    it('should keep the start and duration of each event', () => {
+        const lines = parseTranscriptEvents([
+            { tStartMs: 1500, dDurationMs: 2000, segs: [{ utf8: 'Hello ' }, { utf8: 'world' }] },
+            { tStartMs: 4000, dDurationMs: 1000, segs: [{ utf8: 'again' }] }
+        ]);
+
+        expect(lines).toEqual([
+            { text: 'Hello world', start: 1.5, duration: 2 },
+            { text: 'again', start: 4, duration: 1 }
+        ]);
+    });
+
+    it('should skip events without text', () => {
+        const lines = parseTranscriptEvents([
+            { tStartMs: 0, dDurationMs: 10000 },
+            { tStartMs: 500, dDurationMs: 1000, segs: [{ utf8: '\n' }] },
+            { tStartMs: 900, dDurationMs: 1000, segs: [{ utf8: 'text' }] }
+        ]);
+
+        expect(lines).toHaveLength(1);
+        expect(lines[0].start).toBe(0.9);
+    });
+});
+
+describe('transcriptToText', () => {
+    it('should join lines with single spaces', () => {
+        const text = transcriptToText([
+            { text: 'one ', start: 0, duration: 1 },
+            { text: ' two', start: 1, duration: 1 }
+        ]);
+
+        expect(text).toBe('one two');
+    });
+});
+
+describe('selectCaptionTrack', () => {
+    const manualEnglish: CaptionTrack = { baseUrl: 'en', languageCode: 'en', vssId: '.en' };
+    const manualGerman: CaptionTrack = { baseUrl: 'de', languageCode: 'de', vssId: '.de' };
+    const asrGerman: CaptionTrack = { baseUrl: 'a.de', languageCode: 'de', kind: 'asr', vssId: 'a.de' };
+
+    it('should prefer a manual track in the spoken language', () => {
+        const track = selectCaptionTrack([manualEnglish, asrGerman, manualGerman]);
+
+        expect(track).toBe(manualGerman);
+    });
+
+    it('should fall back to the auto-generated track', () => {
+        const track = selectCaptionTrack([manualEnglish, asrGerman]);
+
+        expect(track).toBe(asrGerman);
+    });
+
+    it('should prefer English when the spoken language is unknown', () => {
+        const track = selectCaptionTrack([manualGerman, manualEnglish]);
+
+        expect(track).toBe(manualEnglish);
+    });
+
+    it('should honor an explicitly chosen track', () => {
+        const track = selectCaptionTrack([manualGerman, asrGerman], 'a.de');
+
+        expect(track).toBe(asrGerman);
+    });
+
+    it('should return null without tracks', () => {
+        expect(selectCaptionTrack([])).toBeNull();
+    });
+});
+
+describe('describeCaptionTracks', () => {
+    it('should expose name, language and ASR flag', () => {
+        const [info] = describeCaptionTracks([
+            { baseUrl: 'x', languageCode: 'en', kind: 'asr', name: { runs: [{ text: 'English (auto-generated)' }] } }
+        ]);
+
+        expect(info).toEqual({
+            id: 'a.en',
+            name: 'English (auto-generated)',
+            languageCode: 'en',
+            isAutoGenerated: true
+        });
+    });
+});
+
+describe('parsePlayerResponse', () => {
+    it('should read the video and its caption tracks from a page script', () => {
+        const script = 'var ytInitialPlayerResponse = {"videoDetails":{"videoId":"abc"},"captions":{"playerCaptionsTracklistRenderer":{"captionTracks":[{"baseUrl":"x","languageCode":"en"}]}}};var meta = {};';
+        const response = parsePlayerResponse(script);
+
+        expect(response?.videoDetails?.videoId).toBe('abc');
+        expect(getCaptionTracks(response)).toEqual([{ baseUrl: 'x', languageCode: 'en' }]);
+    });
+
+    it('should return null without a valid player response', () => {
+        expect(parsePlayerResponse('var other = {};')).toBeNull();
+        expect(parsePlayerResponse('ytInitialPlayerResponse = {broken};')).toBeNull();
+        expect(getCaptionTracks(null)).toEqual([]);
+    });
+});
+
+describe('getVideoDuration', () => {
+    it('should read the video length in seconds', () => {
+        expect(getVideoDuration({ videoDetails: { videoId: 'abc', lengthSeconds: '725' } })).toBe(725);
+        expect(getVideoDuration({ videoDetails: { videoId: 'abc', lengthSeconds: '0' } })).toBeUndefined();
+        expect(getVideoDuration({ videoDetails: { videoId: 'abc' } })).toBeUndefined();
+        expect(getVideoDuration(null)).toBeUndefined();
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for WebVTT Export and Import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateVTT, isVTT, parseVTT } from '../bringyoursub-chrome/shared/ai-core/vtt';
+import { parseSRT } from '../bringyoursub-chrome/shared/ai-core/srt';
+import { formatTimestamp } from '../bringyoursub-chrome/shared/ai-core/subtitles';
+
+describe('formatTimestamp', () => {
+    it('should format SRT and WebVTT timestamps', () => {
+        expect(formatTimestamp(3725.5, ',')).toBe('01:02:05,500');
+        expect(formatTimestamp(3725.5, '.')).toBe('01:02:05.500');
+    });
+
+    it('should round to the nearest millisecond', () => {
+        expect(formatTimestamp(1.9999, '.')).toBe('00:00:02.000');
+    });
+});
+
+describe('generateVTT', () => {
+    const cues = [
+        { start: 0, end: 2.5, text: 'Hello\nworld' },
+        { start: 3, end: 5, text: 'Tom & Jerry <3' }
+    ];
+
+    it('should write a header and one block per cue', () => {
+        expect(generateVTT(cues)).toBe(
+            'WEBVTT\n\n' +
+            '00:00:00.000 --> 00:00:02.500\nHello\nworld\n\n' +
+            '00:00:03.000 --> 00:00:05.000\nTom &amp; Jerry &lt;3\n'
+        );
+    });
+
+    it('should write notes after the header', () => {
+        const vtt = generateVTT(cues, { notes: ['Made for --> testing'] });
+
+        expect(vtt.startsWith('WEBVTT\n\nNOTE Made for -> testing\n\n00:00:00.000')).toBe(true);
+    });
+
+    it('should add position settings to cues without their own', () => {
+        const vtt = generateVTT([...cues, { start: 6, end: 7, text: 'Left', settings: 'align:left' }], { position: 'top' });
+
+        expect(vtt).toContain('00:00:00.000 --> 00:00:02.500 line:5% align:center\n');
+        expect(vtt).toContain('00:00:06.000 --> 00:00:07.000 align:left\n');
+    });
+
+    it('should write cue identifiers and drop blank lines inside cues', () => {
+        const vtt = generateVTT([{ id: 'intro', start: 0, end: 1, text: 'One\n\nTwo' }]);
+
+        expect(vtt).toBe('WEBVTT\n\nintro\n00:00:00.000 --> 00:00:01.000\nOne\nTwo\n');
+    });
+
+    it('should keep italic, bold and underline tags and escape other text', () => {
+        const vtt = generateVTT([{ start: 0, end: 1, text: '<i>Hi</i> & <b>you</b> <font color="red">x</font> <u>1 < 2</u>' }]);
+
+        expect(vtt).toContain('\n<i>Hi</i> &amp; <b>you</b> x <u>1 &lt; 2</u>\n');
+    });
+});
+
+describe('parseVTT', () => {
+    it('should parse cues with identifiers, settings and short timestamps', () => {
+        const vtt = '\uFEFFWEBVTT - Example\r\nKind: captions\r\n\r\n' +
+            'NOTE This is a comment\r\nspanning two lines\r\n\r\n' +
+            'STYLE\r\n::cue { color: yellow }\r\n\r\n' +
+            'first\r\n00:01.000 --> 00:03.500 align:start line:0\r\nHello\r\nthere\r\n\r\n\r\n' +
+            '01:00:00.000 --> 01:00:02.000\r\nBye\r\n';
+
+        expect(parseVTT(vtt)).toEqual({
+            cues: [
+                { start: 1, end: 3.5, text: 'Hello\nthere', id: 'first', settings: 'align:start line:0' },
+                { start: 3600, end: 3602, text: 'Bye' }
+            ],
+            errors: []
+        });
+    });
+
+    it('should remove markup other than italic, bold and underline and decode character references', () => {
+        const vtt = 'WEBVTT\n\n00:00.000 --> 00:01.000\n<v Roger>Hi <i.loud>you</i> &amp; <c.loud>me</c>&nbsp;&lt;3\n';
+
+        expect(parseVTT(vtt).cues[0].text).toBe('Hi <i>you</i> & me\u00A0<3');
+    });
+
+    it('should skip and report blocks without a valid timing line', () => {
+        const vtt = 'WEBVTT\n\nno timing here\n\n00:00.000 --> soon\nBroken\n\n00:02.000 --> 00:03.000\nOk\n';
+
+        expect(parseVTT(vtt)).toEqual({
+            cues: [{ start: 2, end: 3, text: 'Ok' }],
+            errors: [
+                { line: 3, message: 'Expected a timing line' },
+                { line: 5, message: 'Invalid timing line' }
+            ]
+        });
+    });
+
+    it('should return no cues without a WebVTT header', () => {
+        expect(isVTT('1\n00:00:01,000 --> 00:00:02,000\nHi\n')).toBe(false);
+        expect(parseVTT('1\n00:00:01,000 --> 00:00:02,000\nHi\n')).toEqual({
+            cues: [],
+            errors: [{ line: 1, message: 'Missing WEBVTT header' }]
+        });
+    });
+
+    it('should read back what generateVTT writes', () => {
+        const cues = [
+            { start: 0.25, end: 2, text: 'A & B\n<C>' },
+            { start: 2.5, end: 4.75, text: 'Second', id: '2', settings: 'line:5% align:center' }
+        ];
+
+        expect(parseVTT(generateVTT(cues)).cues).toEqual(cues);
+    });
+});
+
+describe('parseSRT', () => {
+    it('should convert generated SRT to WebVTT', () => {
+        const srt = '1\n00:00:01,000 --> 00:00:02,500\nFirst line\nSecond line\n\n2\n00:00:03,000 --> 00:00:04,000\nNext\n';
+
+        expect(generateVTT(parseSRT(srt).cues)).toBe(
+            'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\nFirst line\nSecond line\n\n00:00:03.000 --> 00:00:04.000\nNext\n'
+        );
+    });
+});